@@ -1,16 +1,27 @@
 import { JpdictIdb } from './database.js';
-import type { WordDownloadRecord } from './download-types.js';
+import type {
+  KanjiDownloadRecord,
+  NameDownloadRecord,
+  WordDownloadRecord,
+} from './download-types.js';
 import { isKanji } from './japanese.js';
-import type { WordStoreRecord } from './store-types.js';
-import { toWordStoreRecord } from './store-types.js';
+import type {
+  KanjiStoreRecord,
+  NameStoreRecord,
+  WordStoreRecord,
+} from './store-types.js';
+import {
+  toKanjiStoreRecord,
+  toNameStoreRecord,
+  toWordStoreRecord,
+} from './store-types.js';
 import { JpdictStore } from './store.js';
 import { getTokens } from './tokenizer.js';
 import type { WordSense } from './words.js';
 
 export class JpdictFullTextDatabase extends JpdictIdb {
-  constructor({ verbose = false }: { verbose?: boolean } = {}) {
-    super({ verbose });
-    this.store = new JpdictFullTextStore();
+  protected createStore(): JpdictStore {
+    return new JpdictFullTextStore();
   }
 }
 
@@ -18,6 +29,9 @@ class JpdictFullTextStore extends JpdictStore {
   constructor() {
     super();
     this.toStoreRecord.words = toFullTextWordStoreRecord;
+    this.toStoreRecord.kanji = toFullTextKanjiStoreRecord;
+    this.toStoreRecord.names = toFullTextNameStoreRecord;
+    this.hasNameTranslationTokens = true;
   }
 }
 
@@ -69,3 +83,30 @@ function getGlossTokensForEntry(
 
   return [...new Set(allTokens)];
 }
+
+function toFullTextKanjiStoreRecord(
+  record: KanjiDownloadRecord,
+  lang: string
+): KanjiStoreRecord {
+  // Records that are not available in the requested language fall back to
+  // English and have their m_lang field set accordingly.
+  const meaningLang = record.m_lang || lang;
+  const allTokens = record.m.reduce(
+    (tokens: Array<string>, meaning: string) =>
+      tokens.concat(...getTokens(meaning, meaningLang)),
+    []
+  );
+
+  return { ...toKanjiStoreRecord(record), mt: [...new Set(allTokens)] };
+}
+
+function toFullTextNameStoreRecord(
+  record: NameDownloadRecord
+): NameStoreRecord {
+  // The names dictionary is only available in English
+  const allTokens = record.tr.flatMap((tr) =>
+    tr.det.flatMap((det) => getTokens(det, 'en'))
+  );
+
+  return { ...toNameStoreRecord(record), tt: [...new Set(allTokens)] };
+}
@@ -258,6 +258,213 @@ describe('JpdictIdb', function () {
     assert.equal(db.radicals.updateState.type, 'idle');
   });
 
+  it('should download from the configured base URL', async () => {
+    await db.destroy();
+    db = new JpdictIdb({
+      baseUrl: ['https://mirror-1.example', 'https://mirror-2.example/'],
+    });
+
+    fetchMock
+      .route('https://mirror-1.example/jpdict/reader/version-en.json', 503)
+      .route(
+        'https://mirror-2.example/jpdict/reader/version-en.json',
+        VERSION_INFO
+      )
+      .route(
+        'https://mirror-2.example/jpdict/reader/kanji/en/5.0.0.jsonl',
+        `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":0,"format":"full"}
+`
+      )
+      .route(
+        'https://mirror-2.example/jpdict/reader/radicals/en/4.0.0.jsonl',
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0,"format":"full"}
+`
+      );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    assert.equal(db.kanji.state, 'ok');
+    assert.equal(db.radicals.state, 'ok');
+    assert.isFalse(
+      fetchMock.callHistory.called('begin:https://data.10ten.life/')
+    );
+  });
+
+  it('should import local data files', async () => {
+    await db.ready;
+
+    await db.importFromFiles({
+      series: 'names',
+      lang: 'en',
+      version: { major: 3, minor: 0, patch: 1 },
+      files: [
+        new Blob([
+          `{"type":"header","version":{"major":3,"minor":0,"patch":1,"dateOfCreation":"2020-08-22"},"records":1,"format":"full"}
+{"id":5000000,"r":["ゝ"],"tr":[{"type":["unclass"],"det":["ゝ"]}]}
+`,
+        ]),
+      ],
+    });
+
+    assert.equal(db.names.state, 'ok');
+    assert.deepEqual(db.names.version, {
+      major: 3,
+      minor: 0,
+      patch: 1,
+      dateOfCreation: '2020-08-22',
+      lang: 'en',
+    });
+    assert.equal(db.names.updateState.type, 'idle');
+    assert.isNotNull(db.names.updateState.lastCheck);
+    assert.isFalse(fetchMock.callHistory.called());
+
+    // Apply a patch
+    await db.importFromFiles({
+      series: 'names',
+      lang: 'en',
+      version: { major: 3, minor: 0, patch: 2 },
+      files: [
+        new Blob([
+          `{"type":"header","version":{"major":3,"minor":0,"patch":2,"dateOfCreation":"2020-08-23"},"records":1,"format":"patch"}
+{"_":"-","id":5000000}
+`,
+        ]).stream(),
+      ],
+    });
+
+    assert.equal(db.names.version?.patch, 2);
+  });
+
+  it('should validate imported data files', async () => {
+    await db.ready;
+
+    // Wrong number of files
+    try {
+      await db.importFromFiles({
+        series: 'names',
+        lang: 'en',
+        version: { major: 3, minor: 0, patch: 0, parts: 2 },
+        files: [new Blob([''])],
+      });
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      assert.instanceOf(e, DownloadError);
+      assert.equal((e as DownloadError).code, 'DatabaseFileVersionMismatch');
+    }
+
+    // Mismatched version
+    try {
+      await db.importFromFiles({
+        series: 'names',
+        lang: 'en',
+        version: { major: 3, minor: 0, patch: 1 },
+        files: [
+          new Blob([
+            `{"type":"header","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22"},"records":0,"format":"full"}
+`,
+          ]),
+        ],
+      });
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      assert.instanceOf(e, DownloadError);
+      assert.equal((e as DownloadError).code, 'DatabaseFileVersionMismatch');
+      assert.equal(
+        (e as DownloadError).url,
+        'jpdict/reader/names/en/3.0.1.jsonl'
+      );
+    }
+
+    assert.equal(db.names.state, 'empty');
+    assert.equal(db.names.updateState.type, 'idle');
+  });
+
+  it('should allow canceling an import', async () => {
+    await db.ready;
+
+    const lines = [
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22"},"records":1,"format":"full"}
+`,
+      `{"id":5000000,"r":["ゝ"],"tr":[{"type":["unclass"],"det":["ゝ"]}]}
+`,
+    ];
+    const encoder = new TextEncoder();
+    const file = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const line = lines.shift();
+        if (!line) {
+          controller.close();
+          return;
+        }
+        // Cancel once the import is underway
+        if (!lines.length) {
+          db.cancelUpdate('names');
+        }
+        controller.enqueue(encoder.encode(line));
+      },
+    });
+
+    const importResult = await db
+      .importFromFiles({
+        series: 'names',
+        lang: 'en',
+        version: { major: 3, minor: 0, patch: 0 },
+        files: [file],
+      })
+      .catch((e) => e);
+
+    assert.instanceOf(importResult, AbortError);
+    assert.equal(db.names.state, 'empty');
+    assert.deepEqual(db.names.updateState, { type: 'idle', lastCheck: null });
+  });
+
+  it('should wait for an import to finish before updating', async () => {
+    await db.ready;
+
+    fetchMock
+      .route('end:version-en.json', {
+        names: { '3': { ...VERSION_INFO.names['3'], patch: 1 } },
+      })
+      .route(
+        'end:names/en/3.0.1-patch.jsonl',
+        `{"type":"header","version":{"major":3,"minor":0,"patch":1,"dateOfCreation":"2020-08-22"},"records":1,"format":"patch"}
+{"_":"-","id":5000000}
+`
+      );
+
+    // Start the update once the import is underway
+    let updatePromise: Promise<void> | undefined;
+    const file = new Blob([
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22"},"records":1,"format":"full"}
+{"id":5000000,"r":["ゝ"],"tr":[{"type":["unclass"],"det":["ゝ"]}]}
+`,
+    ])
+      .stream()
+      .pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            if (!updatePromise) {
+              updatePromise = db.update({ series: 'names', lang: 'en' });
+            }
+            controller.enqueue(chunk);
+          },
+        })
+      );
+
+    await db.importFromFiles({
+      series: 'names',
+      lang: 'en',
+      version: { major: 3, minor: 0, patch: 0 },
+      files: [file],
+    });
+    assert.isDefined(updatePromise);
+    await updatePromise;
+
+    assert.equal(db.names.version?.patch, 1);
+    assert.equal(await db.store.getRecordCount('names'), 0);
+    assert.isFalse(fetchMock.callHistory.called('end:names/en/3.0.0.jsonl'));
+  });
+
   it('should allow canceling the update', async () => {
     fetchMock
       .route('end:version-en.json', VERSION_INFO)
@@ -416,4 +623,321 @@ describe('JpdictIdb', function () {
     assert.equal(db.radicals.state, 'empty');
     assert.equal(db.names.state, 'ok');
   });
+
+  it('should export and restore snapshots', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO).route(
+      'end:names/en/3.0.0.jsonl',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22"},"records":2,"format":"full"}
+{"r":["こくろう"],"k":["国労"],"id":1657560,"tr":[{"type":["org"],"det":["National Railway Workers' Union"]}]}
+{"r":["ゝ"],"id":5000000,"tr":[{"type":["unclass"],"det":["ゝ"]}]}
+`
+    );
+
+    await db.update({ series: 'names', lang: 'en' });
+
+    // Read the whole snapshot since the stream is read lazily
+    const snapshot = await new Response(
+      await db.exportSnapshot('names')
+    ).blob();
+
+    // Restore to a fresh database
+    await db.destroy();
+    db = new JpdictIdb();
+    await db.ready;
+    assert.equal(db.names.state, 'empty');
+
+    await db.restoreSnapshot(snapshot.stream());
+
+    assert.equal(db.names.state, 'ok');
+    assert.deepEqual(db.names.version, {
+      ...VERSION_INFO.names['3'],
+      lang: 'en',
+    });
+    assert.equal(await db.store.getRecordCount('names'), 2);
+
+    // Subsequent updates should apply patches to the restored version
+    fetchMock.removeRoutes();
+    fetchMock.clearHistory();
+    clearCachedVersionInfo();
+    fetchMock
+      .route('end:version-en.json', {
+        ...VERSION_INFO,
+        names: { '3': { ...VERSION_INFO.names['3'], patch: 1 } },
+      })
+      .route(
+        'end:names/en/3.0.1-patch.jsonl',
+        `{"type":"header","version":{"major":3,"minor":0,"patch":1,"dateOfCreation":"2020-08-22"},"records":1,"format":"patch"}
+{"_":"-","id":5000000}
+`
+      );
+
+    await db.update({ series: 'names', lang: 'en' });
+
+    assert.equal(db.names.version?.patch, 1);
+    assert.equal(await db.store.getRecordCount('names'), 1);
+    assert.isFalse(fetchMock.callHistory.called('end:names/en/3.0.0.jsonl'));
+  });
+
+  it('should export and restore compressed snapshots', async () => {
+    fetchMock
+      .route('end:version-en.json', VERSION_INFO)
+      .route(
+        'end:kanji/en/5.0.0.jsonl',
+        `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":2,"format":"full"}
+{"c":"学","r":{"on":["ガク"],"kun":["まな.ぶ"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":8,"gr":1},"comp":"⺍⼍⼦","var":"學"}
+{"c":"學","r":{"on":["ガク"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":16}}
+`
+      )
+      .route(
+        'end:radicals/en/4.0.0.jsonl',
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0,"format":"full"}
+`
+      );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    const snapshot = await new Response(
+      await db.exportSnapshot('kanji', { compress: true })
+    ).arrayBuffer();
+    assert.deepEqual([...new Uint8Array(snapshot, 0, 2)], [0x1f, 0x8b]);
+
+    const kanji = [0x5b66, 0x5b78];
+    const originalRecords = await db.store._getKanji(kanji);
+
+    await db.deleteSeries('kanji');
+    assert.equal(db.kanji.state, 'empty');
+
+    await db.restoreSnapshot(new Blob([snapshot]).stream());
+
+    assert.equal(db.kanji.state, 'ok');
+    assert.deepEqual(await db.store._getKanji(kanji), originalRecords);
+  });
+
+  it('should handle snapshots when compression streams are not available', async () => {
+    fetchMock
+      .route('end:version-en.json', VERSION_INFO)
+      .route(
+        'end:kanji/en/5.0.0.jsonl',
+        `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":2,"format":"full"}
+{"c":"学","r":{"on":["ガク"],"kun":["まな.ぶ"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":8,"gr":1},"comp":"⺍⼍⼦","var":"學"}
+{"c":"學","r":{"on":["ガク"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":16}}
+`
+      )
+      .route(
+        'end:radicals/en/4.0.0.jsonl',
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0,"format":"full"}
+`
+      );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    const compressedSnapshot = await new Response(
+      await db.exportSnapshot('kanji', { compress: true })
+    ).arrayBuffer();
+
+    vi.stubGlobal('CompressionStream', undefined);
+    vi.stubGlobal('DecompressionStream', undefined);
+
+    try {
+      // We should fall back to producing an uncompressed snapshot
+      const snapshot = await new Response(
+        await db.exportSnapshot('kanji', { compress: true })
+      ).text();
+      assert.isTrue(snapshot.startsWith('{"type":"snapshot"'));
+
+      // And we should still be able to restore a compressed one
+      const kanji = [0x5b66, 0x5b78];
+      const originalRecords = await db.store._getKanji(kanji);
+
+      await db.deleteSeries('kanji');
+      await db.restoreSnapshot(new Blob([compressedSnapshot]).stream());
+
+      assert.equal(db.kanji.state, 'ok');
+      assert.deepEqual(await db.store._getKanji(kanji), originalRecords);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should wait for an in-progress update before exporting a snapshot', async () => {
+    fetchMock
+      .route('end:version-en.json', VERSION_INFO)
+      .route(
+        'end:kanji/en/5.0.0.jsonl',
+        `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":2,"format":"full"}
+{"c":"学","r":{"on":["ガク"],"kun":["まな.ぶ"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":8,"gr":1},"comp":"⺍⼍⼦","var":"學"}
+{"c":"學","r":{"on":["ガク"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":16}}
+`
+      )
+      .route(
+        'end:radicals/en/4.0.0.jsonl',
+        `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":0,"format":"full"}
+`
+      );
+
+    const update = db.update({ series: 'kanji', lang: 'en' });
+    const snapshot = await new Response(
+      await db.exportSnapshot('kanji')
+    ).text();
+    await update;
+
+    const [header, ...records] = snapshot.trim().split('\n');
+    assert.equal(JSON.parse(header!).records, 2);
+    assert.equal(records.length, 2);
+  });
+
+  it('should allow canceling a restore', async () => {
+    await db.ready;
+
+    const stream = streamLines(
+      [
+        `{"type":"snapshot","format":1,"series":"names","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22","lang":"en"},"records":2}`,
+        `{"r":["こくろう"],"k":["国労"],"id":1657560,"tr":[{"type":["org"],"det":["National Railway Workers' Union"]}]}`,
+        `{"r":["ゝ"],"id":5000000,"tr":[{"type":["unclass"],"det":["ゝ"]}]}`,
+      ],
+      // Cancel once the restore is underway
+      { beforeLastLine: () => db.cancelUpdate('names') }
+    );
+
+    const restoreResult = await db.restoreSnapshot(stream).catch((e) => e);
+
+    assert.instanceOf(restoreResult, AbortError);
+    assert.equal(db.names.state, 'empty');
+    assert.equal(await db.store.getRecordCount('names'), 0);
+  });
+
+  it('should wait for a restore to finish before updating', async () => {
+    await db.ready;
+
+    const record = `{"r":["ゝ"],"id":5000000,"tr":[{"type":["unclass"],"det":["ゝ"]}]}`;
+    await db.importFromFiles({
+      series: 'names',
+      lang: 'en',
+      version: { major: 3, minor: 0, patch: 0 },
+      files: [
+        new Blob([
+          `{"type":"header","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22"},"records":1,"format":"full"}
+${record}
+`,
+        ]),
+      ],
+    });
+
+    fetchMock
+      .route('end:version-en.json', {
+        names: { '3': { ...VERSION_INFO.names['3'], patch: 1 } },
+      })
+      .route(
+        'end:names/en/3.0.1-patch.jsonl',
+        `{"type":"header","version":{"major":3,"minor":0,"patch":1,"dateOfCreation":"2020-08-22"},"records":1,"format":"patch"}
+{"_":"-","id":5000000}
+`
+      );
+
+    // Start the update once the restore has cleared the existing data
+    let updatePromise: Promise<void> | undefined;
+    const stream = streamLines(
+      [
+        `{"type":"snapshot","format":1,"series":"names","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22","lang":"en"},"records":1}`,
+        record,
+      ],
+      {
+        beforeLastLine: () => {
+          if (db.names.state !== 'empty') {
+            return false;
+          }
+          updatePromise = db.update({ series: 'names', lang: 'en' });
+          return true;
+        },
+      }
+    );
+
+    await db.restoreSnapshot(stream);
+    assert.isDefined(updatePromise);
+    await updatePromise;
+
+    assert.equal(db.names.version?.patch, 1);
+    assert.equal(await db.store.getRecordCount('names'), 0);
+    assert.isFalse(fetchMock.callHistory.called('end:names/en/3.0.0.jsonl'));
+  });
+
+  it('should reject invalid snapshots', async () => {
+    await db.ready;
+
+    const toStream = (text: string) => new Blob([text]).stream();
+
+    // Not a snapshot
+    try {
+      await db.restoreSnapshot(
+        toStream(
+          `{"type":"header","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22"},"records":0,"format":"full"}
+`
+        )
+      );
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      assert.instanceOf(e, DownloadError);
+      assert.equal((e as DownloadError).code, 'DatabaseFileHeaderMissing');
+    }
+
+    // Unsupported major version
+    try {
+      await db.restoreSnapshot(
+        toStream(
+          `{"type":"snapshot","format":1,"series":"names","version":{"major":2,"minor":0,"patch":0,"dateOfCreation":"2020-08-22","lang":"en"},"records":0}
+`
+        )
+      );
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      assert.instanceOf(e, DownloadError);
+      assert.equal((e as DownloadError).code, 'MajorVersionNotFound');
+    }
+
+    // Truncated
+    try {
+      await db.restoreSnapshot(
+        toStream(
+          `{"type":"snapshot","format":1,"series":"names","version":{"major":3,"minor":0,"patch":0,"dateOfCreation":"2020-08-22","lang":"en"},"records":2}
+{"r":["ゝ"],"id":5000000,"tr":[{"type":["unclass"],"det":["ゝ"]}]}
+`
+        )
+      );
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      assert.instanceOf(e, DownloadError);
+      assert.equal((e as DownloadError).code, 'DatabaseFileInvalidRecord');
+    }
+
+    assert.equal(db.names.state, 'empty');
+    assert.equal(await db.store.getRecordCount('names'), 0);
+  });
 });
+
+// Returns a stream of `lines` that waits for `beforeLastLine` to return true
+// before producing the last line.
+function streamLines(
+  lines: Array<string>,
+  { beforeLastLine }: { beforeLastLine: () => boolean }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const remaining = lines.slice();
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const line = remaining.shift();
+      if (typeof line === 'undefined') {
+        controller.close();
+        return;
+      }
+
+      if (!remaining.length) {
+        while (!beforeLastLine()) {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+      }
+
+      controller.enqueue(encoder.encode(line + '\n'));
+    },
+  });
+}
@@ -5,12 +5,15 @@ import type { DataSeries, MajorDataSeries } from './data-series.js';
 import { allDataSeries, allMajorDataSeries } from './data-series.js';
 import type { DataSeriesState } from './data-series-state.js';
 import type { DataVersion } from './data-version.js';
-import { hasLanguage } from './download.js';
+import type { ImportOptions } from './download.js';
+import { DEFAULT_BASE_URL, hasLanguage } from './download.js';
+import { DownloadError } from './download-error.js';
+import { exportSnapshot, restoreSnapshot } from './snapshot.js';
 import { JpdictStore } from './store.js';
 import type { UpdateAction } from './update-state-reducer.js';
 import { reducer as updateReducer } from './update-state-reducer.js';
 import type { UpdateState } from './update-state.js';
-import { update } from './update.js';
+import { update, updateFromFiles } from './update.js';
 
 const MAJOR_VERSION: { [series in DataSeries]: number } = {
   kanji: 5,
@@ -28,10 +31,24 @@ type DataSeriesInfo = {
   updateState: UpdateState;
 };
 
+export type JpdictIdbOptions = {
+  // The base URL to download data from, or an ordered list of base URLs to
+  // try in turn (e.g. a self-hosted copy of the data followed by the
+  // default location).
+  //
+  // Defaults to https://data.10ten.life/
+  baseUrl?: string | ReadonlyArray<string>;
+  verbose?: boolean;
+};
+
 type InProgressUpdate = {
   promise: Promise<void>;
   controller: AbortController;
   lang: string;
+  // Set when the update is importing local files or restoring a snapshot
+  // rather than downloading the data. Such updates are never re-used by
+  // `update()`.
+  source?: 'files' | 'snapshot';
 };
 
 export class JpdictIdb {
@@ -60,6 +77,7 @@ export class JpdictIdb {
   store: JpdictStore;
 
   private verbose = false;
+  private baseUrls: ReadonlyArray<string>;
   private readyPromise: Promise<any>;
   private changeListeners: Array<ChangeCallback> = [];
   private inProgressUpdates: {
@@ -72,9 +90,18 @@ export class JpdictIdb {
   //
   // -------------------------------------------------------------------------
 
-  constructor({ verbose = false }: { verbose?: boolean } = {}) {
-    this.store = new JpdictStore();
+  constructor({
+    baseUrl = DEFAULT_BASE_URL,
+    verbose = false,
+  }: JpdictIdbOptions = {}) {
+    this.store = this.createStore();
     this.verbose = verbose;
+    this.baseUrls = (typeof baseUrl === 'string' ? [baseUrl] : baseUrl).map(
+      (url) => (url.endsWith('/') ? url : `${url}/`)
+    );
+    if (!this.baseUrls.length) {
+      throw new Error('At least one base URL must be provided');
+    }
 
     // Fetch initial state
     this.readyPromise = (async () => {
@@ -111,6 +138,15 @@ export class JpdictIdb {
     return this.readyPromise;
   }
 
+  // Subclasses can override this to change how records are stored.
+  //
+  // Since the store is opened (and hence upgraded) as soon as the database is
+  // created, overriding this is necessary to ensure any upgrade uses the
+  // subclass's store.
+  protected createStore(): JpdictStore {
+    return new JpdictStore();
+  }
+
   // -------------------------------------------------------------------------
   //
   // Destruction
@@ -138,7 +174,7 @@ export class JpdictIdb {
       console.info('Destroying database while there is an in-progress update');
     }
 
-    this.store = new JpdictStore();
+    this.store = this.createStore();
     for (const series of allDataSeries) {
       this[series] = {
         state: 'empty',
@@ -197,9 +233,29 @@ export class JpdictIdb {
   //
   // -------------------------------------------------------------------------
 
-  async update({ series, lang }: { series: MajorDataSeries; lang: string }) {
+  async update({
+    series,
+    lang,
+  }: {
+    series: MajorDataSeries;
+    lang: string;
+  }): Promise<void> {
     // Check for an existing update
     const existingUpdate = this.inProgressUpdates[series];
+
+    // If we are importing files or restoring a snapshot, wait for that to
+    // finish and then download anything that was not included.
+    if (existingUpdate?.source) {
+      if (this.verbose) {
+        console.info(
+          `Waiting for in-progress ${existingUpdate.source === 'files' ? 'import' : 'restore'} for '${series}' series to finish before updating`
+        );
+      }
+
+      await existingUpdate.promise;
+      return this.update({ series, lang });
+    }
+
     if (existingUpdate && existingUpdate.lang === lang) {
       if (this.verbose) {
         console.info(
@@ -253,35 +309,100 @@ export class JpdictIdb {
       }
     })();
 
-    this.inProgressUpdates[series] = {
-      lang,
-      controller,
-      promise: updatePromise
+    this.trackUpdate(series, { lang, controller, promise: updatePromise });
+
+    return updatePromise;
+  }
+
+  private trackUpdate(series: MajorDataSeries, update: InProgressUpdate) {
+    const inProgressUpdate: InProgressUpdate = {
+      ...update,
+      promise: update.promise
         .catch(() => {}) // Ignore errors from this Promise chain
         .finally(() => {
-          // Reset the in-progress update but only if the language wasn't
-          // changed (since we don't want to clobber a new request).
-          if (
-            this.inProgressUpdates[series] &&
-            this.inProgressUpdates[series]!.lang === lang
-          ) {
+          // Reset the in-progress update but only if it hasn't been replaced
+          // (since we don't want to clobber a new request).
+          if (this.inProgressUpdates[series] === inProgressUpdate) {
             this.inProgressUpdates[series] = undefined;
           }
           this.notifyChanged('stateupdated');
         }),
     };
+    this.inProgressUpdates[series] = inProgressUpdate;
+  }
 
-    return updatePromise;
+  // Updates `series` using local copies of the data files rather than
+  // downloading them (e.g. for installations without network access).
+  //
+  // `version` is the version of the data to update to and `files` are the
+  // files that would otherwise be downloaded to reach that version from the
+  // current version, in the order they would be downloaded.
+  //
+  // Any in-progress update for the series is canceled and the import can
+  // itself be canceled using `cancelUpdate`.
+  async importFromFiles({
+    series,
+    lang,
+    version,
+    files,
+  }: { series: DataSeries; lang: string } & Pick<
+    ImportOptions,
+    'version' | 'files'
+  >) {
+    await this.ready;
+
+    // (We need to check again after waiting in case another update was
+    // started in the meantime.)
+    const majorSeries = toMajorDataSeries(series);
+    while (this.inProgressUpdates[majorSeries]) {
+      await this.cancelConflictingUpdate(series);
+    }
+
+    const controller = new AbortController();
+    const importPromise = this.doUpdate({
+      series,
+      signal: controller.signal,
+      lang,
+      importSource: { version, files },
+    });
+
+    this.trackUpdate(majorSeries, {
+      lang,
+      controller,
+      promise: importPromise,
+      source: 'files',
+    });
+
+    return importPromise;
+  }
+
+  // Cancels any in-progress update that would write to `series` and waits for
+  // it to finish.
+  private async cancelConflictingUpdate(series: DataSeries) {
+    const majorSeries = toMajorDataSeries(series);
+    const existingUpdate = this.inProgressUpdates[majorSeries];
+    if (!existingUpdate) {
+      return;
+    }
+
+    if (this.verbose) {
+      console.info(`Cancelling existing update for '${majorSeries}' series`);
+    }
+
+    this.cancelUpdate(majorSeries);
+    await existingUpdate.promise;
   }
 
   private async doUpdate({
     series,
     signal,
     lang: requestedLang,
+    importSource,
   }: {
     series: DataSeries;
     signal: AbortSignal;
     lang: string;
+    importSource?: Pick<ImportOptions, 'version' | 'files'>;
   }) {
     let wroteSomething = false;
 
@@ -316,9 +437,14 @@ export class JpdictIdb {
 
       // Check if the requested language is available for this series, and
       // fallback to English if not.
+      //
+      // (When importing files, there's nothing to check so we simply use the
+      // requested language.)
       const lang =
-        requestedLang !== 'en' &&
+        importSource ||
+        requestedLang === 'en' ||
         (await hasLanguage({
+          baseUrls: this.baseUrls,
           series,
           lang: requestedLang,
           majorVersion: MAJOR_VERSION[series],
@@ -347,21 +473,37 @@ export class JpdictIdb {
 
       if (this.verbose) {
         console.info(
-          `Requesting download for '${series}' series with current version ${JSON.stringify(
+          `${
+            importSource ? 'Importing files' : 'Requesting download'
+          } for '${series}' series with current version ${JSON.stringify(
             this[series].version || undefined
           )}`
         );
       }
 
-      await update({
-        callback: reducer,
-        currentVersion: this[series].version || undefined,
-        lang,
-        majorVersion: MAJOR_VERSION[series],
-        signal,
-        series,
-        store: this.store,
-      });
+      if (importSource) {
+        await updateFromFiles({
+          ...importSource,
+          callback: reducer,
+          currentVersion: this[series].version || undefined,
+          lang,
+          majorVersion: MAJOR_VERSION[series],
+          signal,
+          series,
+          store: this.store,
+        });
+      } else {
+        await update({
+          baseUrls: this.baseUrls,
+          callback: reducer,
+          currentVersion: this[series].version || undefined,
+          lang,
+          majorVersion: MAJOR_VERSION[series],
+          signal,
+          series,
+          store: this.store,
+        });
+      }
 
       if (signal.aborted) {
         throw new AbortError();
@@ -376,6 +518,92 @@ export class JpdictIdb {
     }
   }
 
+  // -------------------------------------------------------------------------
+  //
+  // Snapshots
+  //
+  // -------------------------------------------------------------------------
+
+  // Returns a stream of the records and version of `series` that can be passed
+  // to `restoreSnapshot` (e.g. to copy the data to another profile without
+  // downloading it again).
+  //
+  // Records are read from the database as the stream is consumed. If the
+  // series is updated before the stream is finished, the stream produces an
+  // error.
+  //
+  // Any in-progress update for the series is allowed to finish before we
+  // begin.
+  //
+  // If `compress` is set but CompressionStream is not available, the snapshot
+  // is not compressed.
+  async exportSnapshot(
+    series: DataSeries,
+    { compress = false }: { compress?: boolean } = {}
+  ): Promise<ReadableStream<Uint8Array>> {
+    await this.ready;
+
+    const majorSeries = toMajorDataSeries(series);
+    let inProgressUpdate: InProgressUpdate | undefined;
+    while ((inProgressUpdate = this.inProgressUpdates[majorSeries])) {
+      if (this.verbose) {
+        console.info(
+          `Waiting for '${majorSeries}' update before exporting '${series}'`
+        );
+      }
+      await inProgressUpdate.promise.catch(() => {});
+    }
+
+    return exportSnapshot({ store: this.store, series, compress });
+  }
+
+  // Replaces the data for a series with that of a snapshot produced by
+  // `exportSnapshot`.
+  //
+  // Subsequent updates will fetch any patches made since the version of the
+  // snapshot.
+  //
+  // Once the snapshot header has been read, any in-progress update for the
+  // series is canceled and the restore can itself be canceled using
+  // `cancelUpdate`.
+  async restoreSnapshot(stream: ReadableStream<Uint8Array>) {
+    await this.ready;
+
+    const controller = new AbortController();
+    const restorePromise = (async () => {
+      const { series, version } = await restoreSnapshot({
+        stream,
+        store: this.store,
+        signal: controller.signal,
+        onHeader: async ({ series, version }) => {
+          if (version.major !== MAJOR_VERSION[series]) {
+            throw new DownloadError(
+              { code: 'MajorVersionNotFound', url: 'snapshot' },
+              `Expected ${MAJOR_VERSION[series]}.x version of ${series} data but got ${version.major}.x`
+            );
+          }
+
+          const majorSeries = toMajorDataSeries(series);
+          while (this.inProgressUpdates[majorSeries]) {
+            await this.cancelConflictingUpdate(series);
+          }
+
+          this.trackUpdate(majorSeries, {
+            lang: version.lang,
+            controller,
+            promise: restorePromise,
+            source: 'snapshot',
+          });
+          this.updateDataVersion(series, null);
+        },
+      });
+
+      this.updateDataVersion(series, version);
+    })();
+
+    return restorePromise;
+  }
+
   private updateDataVersion(series: DataSeries, version: DataVersion | null) {
     if (
       this[series].state !== 'init' &&
@@ -412,3 +640,7 @@ export class JpdictIdb {
     return this.verbose;
   }
 }
+
+function toMajorDataSeries(series: DataSeries): MajorDataSeries {
+  return series === 'radicals' ? 'kanji' : series;
+}
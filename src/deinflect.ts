@@ -0,0 +1,467 @@
+// A rule-based deinflector for Japanese verbs and adjectives.
+//
+// Given an inflected word such as 食べられなかった, this produces a list of
+// candidate dictionary forms (e.g. 食べる) along with the inflections that
+// were undone to reach them and the word type(s) the candidate must have in
+// order for the deinflection to be valid.
+//
+// It is up to the caller to look up each candidate and check that the
+// part-of-speech of the matching entry agrees with the candidate's type.
+
+export type Reason = (typeof allReasons)[number];
+
+const allReasons = [
+  'adverb',
+  'causative',
+  'causative-passive',
+  'conditional',
+  'continuous',
+  'desire',
+  'imperative',
+  'negative',
+  'noun',
+  'passive',
+  'past',
+  'polite',
+  'potential',
+  'shimau',
+  'tara',
+  'tari',
+  'te',
+  'volitional',
+  'zu',
+] as const;
+
+// Word types
+//
+// These are bitfields so that a rule can apply to several types of word at
+// once.
+export const WordType = {
+  IchidanVerb: 1 << 0,
+  GodanVerb: 1 << 1,
+  IAdj: 1 << 2,
+  KuruVerb: 1 << 3,
+  SuruVerb: 1 << 4,
+  // A noun that takes する (e.g. 勉強)
+  NounVS: 1 << 5,
+  // The word as it was originally passed in. Rules that only apply to the
+  // final inflection in a chain (e.g. the past tense) have this as their
+  // `fromType`.
+  Initial: 1 << 6,
+} as const;
+
+const AllWordTypes =
+  WordType.IchidanVerb |
+  WordType.GodanVerb |
+  WordType.IAdj |
+  WordType.KuruVerb |
+  WordType.SuruVerb |
+  WordType.NounVS |
+  WordType.Initial;
+
+export type CandidateWord = {
+  word: string;
+  // Bitfield of WordType values
+  type: number;
+  // Each chain lists the inflections applied to `word` to produce the input
+  // string, starting from the one closest to the dictionary form.
+  //
+  // For the original input this is empty. For all other candidates there is at
+  // least one chain, although the chain itself may be empty (e.g. for 勉強 as a
+  // candidate for 勉強する).
+  reasonChains: Array<Array<Reason>>;
+};
+
+export function deinflect(word: string): Array<CandidateWord> {
+  const result: Array<CandidateWord> = [
+    { word, type: AllWordTypes, reasonChains: [] },
+  ];
+  const resultIndex: Map<string, number> = new Map([
+    [toIndexKey(word, AllWordTypes), 0],
+  ]);
+
+  const rulesByLength = getRules();
+
+  for (let i = 0; i < result.length; i++) {
+    const { word: thisWord, type, reasonChains } = result[i]!;
+
+    for (const [length, rules] of rulesByLength) {
+      if (length > thisWord.length) {
+        continue;
+      }
+
+      const rules_ = rules.get(thisWord.slice(-length));
+      for (const rule of rules_ || []) {
+        if (!(type & rule.fromType)) {
+          continue;
+        }
+
+        const newWord = thisWord.slice(0, -length) + rule.to;
+        if (!newWord) {
+          continue;
+        }
+
+        // Rules with no reasons (e.g. dropping the する from a noun that takes
+        // する) still produce an (empty) chain so that we can tell the
+        // candidate apart from the original input.
+        const newReasonChains = reasonChains.length
+          ? reasonChains.map((chain) => [...rule.reasons, ...chain])
+          : [[...rule.reasons]];
+
+        // If we already have this candidate, just add the reasons to it.
+        const key = toIndexKey(newWord, rule.toType);
+        const existingIndex = resultIndex.get(key);
+        if (typeof existingIndex !== 'undefined') {
+          const existing = result[existingIndex]!;
+          for (const chain of newReasonChains) {
+            if (!existing.reasonChains.some((c) => chainsEqual(c, chain))) {
+              existing.reasonChains.push(chain);
+            }
+          }
+          continue;
+        }
+
+        resultIndex.set(key, result.length);
+        result.push({
+          word: newWord,
+          type: rule.toType,
+          reasonChains: newReasonChains,
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+function toIndexKey(word: string, type: number): string {
+  return `${type}:${word}`;
+}
+
+function chainsEqual(a: Array<Reason>, b: Array<Reason>): boolean {
+  return a.length === b.length && a.every((reason, i) => reason === b[i]);
+}
+
+// ----------------------------------------------------------------------------
+//
+// Rules
+//
+// ----------------------------------------------------------------------------
+
+type DeinflectRule = {
+  from: string;
+  to: string;
+  fromType: number;
+  toType: number;
+  reasons: Array<Reason>;
+};
+
+// Rules grouped first by the length of their `from` string (longest first) and
+// then by the `from` string itself.
+let cachedRules: Map<number, Map<string, Array<DeinflectRule>>> | undefined;
+
+function getRules(): Map<number, Map<string, Array<DeinflectRule>>> {
+  if (cachedRules) {
+    return cachedRules;
+  }
+
+  const rules = [...getVerbRules(), ...getAdjectiveRules(), ...getMiscRules()];
+
+  const lengths = [...new Set(rules.map((rule) => rule.from.length))].sort(
+    (a, b) => b - a
+  );
+  cachedRules = new Map(lengths.map((length) => [length, new Map()]));
+  for (const rule of rules) {
+    const rulesForLength = cachedRules.get(rule.from.length)!;
+    const existing = rulesForLength.get(rule.from);
+    if (existing) {
+      existing.push(rule);
+    } else {
+      rulesForLength.set(rule.from, [rule]);
+    }
+  }
+
+  return cachedRules;
+}
+
+// -- Verbs --
+
+// The various stems of a verb class, keyed by the name used in the suffix
+// table below.
+//
+// Each stem is a list since some verbs have alternative forms (e.g. the
+// imperative of 食べる can be 食べろ or 食べよ).
+type VerbStems = {
+  // 未然形 (used before ない)
+  a: Array<string>;
+  // Stem used before ず
+  zu: Array<string>;
+  // 連用形 (used before ます, たい etc.)
+  i: Array<string>;
+  // 仮定形 (used before ば)
+  e: Array<string>;
+  te: Array<string>;
+  ta: Array<string>;
+  // The following are complete forms, not stems
+  volitional: Array<string>;
+  imperative: Array<string>;
+  passive: Array<string>;
+  potential: Array<string>;
+  causative: Array<string>;
+  causativePassive: Array<string>;
+};
+
+type VerbClass = {
+  // The part of the dictionary form that is replaced when inflecting, e.g.
+  // る for ichidan verbs, く for 書く, or くる for 来る.
+  ending: string;
+  type: number;
+  stems: Partial<VerbStems>;
+};
+
+const verbSuffixes: Array<
+  [stem: keyof VerbStems, suffix: string, fromType: number, Array<Reason>]
+> = [
+  // ない inflects like an i-adjective so we allow it to be the target of
+  // further adjective rules (e.g. なかった).
+  ['a', 'ない', WordType.IAdj, ['negative']],
+  ['zu', 'ず', WordType.Initial, ['zu']],
+  ['i', 'ます', WordType.Initial, ['polite']],
+  ['i', 'ました', WordType.Initial, ['polite', 'past']],
+  ['i', 'ません', WordType.Initial, ['polite', 'negative']],
+  ['i', 'ませんでした', WordType.Initial, ['polite', 'negative', 'past']],
+  ['i', 'ましょう', WordType.Initial, ['polite', 'volitional']],
+  // たい likewise inflects like an i-adjective
+  ['i', 'たい', WordType.IAdj, ['desire']],
+  ['e', 'ば', WordType.Initial, ['conditional']],
+  ['te', '', WordType.Initial, ['te']],
+  ['te', 'いる', WordType.IchidanVerb, ['continuous']],
+  ['te', 'る', WordType.IchidanVerb, ['continuous']],
+  ['te', 'しまう', WordType.GodanVerb, ['shimau']],
+  ['ta', '', WordType.Initial, ['past']],
+  ['ta', 'ら', WordType.Initial, ['tara']],
+  ['ta', 'り', WordType.Initial, ['tari']],
+  ['volitional', '', WordType.Initial, ['volitional']],
+  ['imperative', '', WordType.Initial, ['imperative']],
+  // The following all produce ichidan verbs that may be further inflected
+  ['passive', '', WordType.IchidanVerb, ['passive']],
+  ['potential', '', WordType.IchidanVerb, ['potential']],
+  ['causative', '', WordType.IchidanVerb, ['causative']],
+  ['causativePassive', '', WordType.IchidanVerb, ['causative-passive']],
+];
+
+function ichidan(): VerbClass {
+  return {
+    ending: 'る',
+    type: WordType.IchidanVerb,
+    stems: {
+      a: [''],
+      zu: [''],
+      i: [''],
+      e: ['れ'],
+      te: ['て'],
+      ta: ['た'],
+      volitional: ['よう'],
+      imperative: ['ろ', 'よ'],
+      passive: ['られる'],
+      // Include the ら-less potential form (e.g. 食べれる)
+      potential: ['られる', 'れる'],
+      causative: ['させる'],
+      causativePassive: ['させられる'],
+    },
+  };
+}
+
+function godan({
+  ending,
+  a,
+  i,
+  e,
+  o,
+  te,
+  ta,
+}: {
+  ending: string;
+  a: string;
+  i: string;
+  e: string;
+  o: string;
+  te: string;
+  ta: string;
+}): VerbClass {
+  return {
+    ending,
+    type: WordType.GodanVerb,
+    stems: {
+      a: [a],
+      zu: [a],
+      i: [i],
+      e: [e],
+      te: [te],
+      ta: [ta],
+      volitional: [o + 'う'],
+      imperative: [e],
+      passive: [a + 'れる'],
+      potential: [e + 'る'],
+      causative: [a + 'せる'],
+      // The short causative-passive form (e.g. 書かされる) is not used for
+      // verbs ending in す.
+      causativePassive:
+        ending === 'す' ? [a + 'せられる'] : [a + 'せられる', a + 'される'],
+    },
+  };
+}
+
+// prettier-ignore
+const verbClasses: Array<VerbClass> = [
+  ichidan(),
+  godan({ ending: 'う', a: 'わ', i: 'い', e: 'え', o: 'お', te: 'って', ta: 'った' }),
+  godan({ ending: 'く', a: 'か', i: 'き', e: 'け', o: 'こ', te: 'いて', ta: 'いた' }),
+  godan({ ending: 'ぐ', a: 'が', i: 'ぎ', e: 'げ', o: 'ご', te: 'いで', ta: 'いだ' }),
+  godan({ ending: 'す', a: 'さ', i: 'し', e: 'せ', o: 'そ', te: 'して', ta: 'した' }),
+  godan({ ending: 'つ', a: 'た', i: 'ち', e: 'て', o: 'と', te: 'って', ta: 'った' }),
+  godan({ ending: 'ぬ', a: 'な', i: 'に', e: 'ね', o: 'の', te: 'んで', ta: 'んだ' }),
+  godan({ ending: 'ぶ', a: 'ば', i: 'び', e: 'べ', o: 'ぼ', te: 'んで', ta: 'んだ' }),
+  godan({ ending: 'む', a: 'ま', i: 'み', e: 'め', o: 'も', te: 'んで', ta: 'んだ' }),
+  godan({ ending: 'る', a: 'ら', i: 'り', e: 'れ', o: 'ろ', te: 'って', ta: 'った' }),
+  // 行く is irregular in its te and ta forms
+  { ending: '行く', type: WordType.GodanVerb, stems: { te: ['行って'], ta: ['行った'] } },
+  { ending: 'いく', type: WordType.GodanVerb, stems: { te: ['いって'], ta: ['いった'] } },
+  {
+    ending: 'する',
+    type: WordType.SuruVerb,
+    stems: {
+      a: ['し'], zu: ['せ'], i: ['し'], e: ['すれ'], te: ['して'], ta: ['した'],
+      volitional: ['しよう'], imperative: ['しろ', 'せよ'], passive: ['される'],
+      causative: ['させる'], causativePassive: ['させられる'],
+    },
+  },
+  {
+    ending: 'くる',
+    type: WordType.KuruVerb,
+    stems: {
+      a: ['こ'], zu: ['こ'], i: ['き'], e: ['くれ'], te: ['きて'], ta: ['きた'],
+      volitional: ['こよう'], imperative: ['こい'], passive: ['こられる'],
+      potential: ['こられる', 'これる'], causative: ['こさせる'],
+      causativePassive: ['こさせられる'],
+    },
+  },
+  {
+    ending: '来る',
+    type: WordType.KuruVerb,
+    stems: {
+      a: ['来'], zu: ['来'], i: ['来'], e: ['来れ'], te: ['来て'], ta: ['来た'],
+      volitional: ['来よう'], imperative: ['来い'], passive: ['来られる'],
+      potential: ['来られる', '来れる'], causative: ['来させる'],
+      causativePassive: ['来させられる'],
+    },
+  },
+];
+
+function getVerbRules(): Array<DeinflectRule> {
+  const rules: Array<DeinflectRule> = [];
+
+  for (const { ending, type, stems } of verbClasses) {
+    for (const [stemName, suffix, fromType, reasons] of verbSuffixes) {
+      for (const stem of stems[stemName] || []) {
+        rules.push({
+          from: stem + suffix,
+          to: ending,
+          fromType,
+          toType: type,
+          reasons,
+        });
+      }
+    }
+
+    // Contracted forms of てしまう (e.g. 食べちゃう, 読んじゃう)
+    for (const te of stems.te || []) {
+      const chau = te.endsWith('で')
+        ? te.slice(0, -1) + 'じゃう'
+        : te.slice(0, -1) + 'ちゃう';
+      rules.push({
+        from: chau,
+        to: ending,
+        fromType: WordType.GodanVerb,
+        toType: type,
+        reasons: ['shimau'],
+      });
+    }
+  }
+
+  return rules;
+}
+
+// -- Adjectives --
+
+// prettier-ignore
+const adjectiveRules: Array<[from: string, fromType: number, Array<Reason>]> = [
+  ['くない', WordType.IAdj, ['negative']],
+  ['かった', WordType.Initial, ['past']],
+  ['くて', WordType.Initial, ['te']],
+  ['く', WordType.Initial, ['adverb']],
+  ['ければ', WordType.Initial, ['conditional']],
+  ['かったら', WordType.Initial, ['tara']],
+  ['かったり', WordType.Initial, ['tari']],
+  ['さ', WordType.Initial, ['noun']],
+];
+
+function getAdjectiveRules(): Array<DeinflectRule> {
+  return adjectiveRules.map(([from, fromType, reasons]) => ({
+    from,
+    to: 'い',
+    fromType,
+    toType: WordType.IAdj,
+    reasons,
+  }));
+}
+
+// -- Misc --
+
+function getMiscRules(): Array<DeinflectRule> {
+  return [
+    // Nouns that take する (e.g. 勉強する → 勉強)
+    {
+      from: 'する',
+      to: '',
+      fromType: WordType.SuruVerb,
+      toType: WordType.NounVS,
+      reasons: [],
+    },
+  ];
+}
+
+// ----------------------------------------------------------------------------
+//
+// Part-of-speech matching
+//
+// ----------------------------------------------------------------------------
+
+// Returns the WordType bits corresponding to a JMdict part-of-speech value
+export function getWordTypeForPartOfSpeech(pos: string): number {
+  if (pos === 'v1' || pos === 'v1-s') {
+    return WordType.IchidanVerb;
+  }
+
+  if (pos.startsWith('v5')) {
+    return WordType.GodanVerb;
+  }
+
+  if (pos === 'adj-i' || pos === 'adj-ix') {
+    return WordType.IAdj;
+  }
+
+  if (pos === 'vk') {
+    return WordType.KuruVerb;
+  }
+
+  if (pos === 'vs-i' || pos === 'vs-s') {
+    return WordType.SuruVerb;
+  }
+
+  if (pos === 'vs') {
+    return WordType.NounVS;
+  }
+
+  return 0;
+}
@@ -10,6 +10,7 @@ export type DownloadErrorCode =
   | 'DatabaseFileVersionMismatch'
   | 'DatabaseFileInvalidJSON'
   | 'DatabaseFileInvalidRecord'
+  | 'DatabaseFileChecksumMismatch'
   | 'DatabaseTooOld'
   | 'Timeout';
 
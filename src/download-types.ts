@@ -230,6 +230,7 @@ const KanjiDownloadRecordSchema: s.Describe<KanjiDownloadRecord> = s.type({
   st: s.optional(s.string()),
   comp: s.optional(s.string()),
   cf: s.optional(s.string()),
+  var: s.optional(s.string()),
 });
 
 export function validateKanjiDownloadRecord(
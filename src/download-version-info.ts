@@ -143,6 +143,13 @@ const VersionInfoStruct = s.type({
   parts: s.optional(s.min(safeInteger(), 1)),
   databaseVersion: s.optional(s.string()),
   dateOfCreation: s.nonempty(s.string()),
+  // SHA-256 digests (as hex strings) of the data files for this version keyed
+  // by file name (e.g. `2.0.0-1.jsonl`, `2.0.3-patch.jsonl`).
+  sha256: s.optional(s.record(s.string(), s.string())),
+  // Compressed variants of the data files that are available, in order of
+  // preference. Each variant uses the name of the uncompressed file with an
+  // extension added (i.e. `.br` for `br` and `.gz` for `gzip`).
+  compression: s.optional(s.array(s.enums(['br', 'gzip']))),
 });
 
 const VersionInfoFileStruct = s.record(
@@ -8,6 +8,7 @@ import {
   describe,
   expect,
   it,
+  vi,
 } from 'vitest';
 
 import { AbortError } from './abort-error.js';
@@ -1105,6 +1106,444 @@ describe('download', () => {
     );
   });
 
+  it('should fail over to the next mirror', async () => {
+    fetchMock.route(
+      'https://mirror-1.example/jpdict/reader/version-en.json',
+      503
+    );
+    fetchMock.route(
+      'https://mirror-2.example/jpdict/reader/version-en.json',
+      KANJI_VERSION_1_0_0
+    );
+    fetchMock.route(
+      'https://mirror-2.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+      503
+    );
+    fetchMock.route(
+      'https://mirror-1.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+      `
+{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+    );
+
+    const abortController = new AbortController();
+    const events = await drainEvents(
+      download({
+        baseUrls: ['https://mirror-1.example/', 'https://mirror-2.example/'],
+        lang: 'en',
+        majorVersion: 1,
+        series: 'kanji',
+        signal: abortController.signal,
+      })
+    );
+
+    expect(events).toMatchObject([
+      { type: 'downloadstart', files: 1 },
+      { type: 'filestart', version: { major: 1, minor: 0, patch: 0 } },
+      { type: 'record', mode: 'add', record: { c: '㐂' } },
+      { type: 'fileend' },
+      { type: 'downloadend' },
+    ]);
+
+    // The data file should be requested from the mirror that returned the
+    // version file first.
+    assert.deepEqual(
+      fetchMock.callHistory
+        .calls('end:kanji/en/1.0.0.jsonl')
+        .map((call) => call.url),
+      [
+        'https://mirror-2.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+        'https://mirror-1.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+      ]
+    );
+  });
+
+  it('should report all the mirrors that failed', async () => {
+    fetchMock.route(
+      'https://mirror-1.example/jpdict/reader/version-en.json',
+      503
+    );
+    fetchMock.route(
+      'https://mirror-2.example/jpdict/reader/version-en.json',
+      503
+    );
+
+    const abortController = new AbortController();
+    try {
+      await drainEvents(
+        download({
+          baseUrls: ['https://mirror-1.example/', 'https://mirror-2.example/'],
+          lang: 'en',
+          majorVersion: 1,
+          series: 'kanji',
+          signal: abortController.signal,
+        }),
+        { wrapError: true }
+      );
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(downloadError.code, 'VersionFileNotAccessible');
+      assert.strictEqual(
+        downloadError.url,
+        'https://mirror-2.example/jpdict/reader/version-en.json'
+      );
+      assert.include(
+        downloadError.message,
+        'https://mirror-1.example/jpdict/reader/version-en.json'
+      );
+    }
+  });
+
+  it('should fail over to the next mirror if a data file is not reachable', async () => {
+    fetchMock.route('end:version-en.json', KANJI_VERSION_1_0_0);
+    fetchMock.route(
+      'https://mirror-1.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+      { throws: new TypeError('Failed to fetch') }
+    );
+    fetchMock.route(
+      'https://mirror-2.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+      `
+{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+    );
+
+    const abortController = new AbortController();
+    const events = await drainEvents(
+      download({
+        baseUrls: ['https://mirror-1.example/', 'https://mirror-2.example/'],
+        lang: 'en',
+        majorVersion: 1,
+        series: 'kanji',
+        signal: abortController.signal,
+      })
+    );
+
+    expect(events).toMatchObject([
+      { type: 'downloadstart', files: 1 },
+      { type: 'filestart', version: { major: 1, minor: 0, patch: 0 } },
+      { type: 'record', mode: 'add', record: { c: '㐂' } },
+      { type: 'fileend' },
+      { type: 'downloadend' },
+    ]);
+  });
+
+  it('should fail over to the next mirror if a data file is missing', async () => {
+    // The second mirror has the version file but the first mirror has not yet
+    // been updated with the data file.
+    fetchMock.route(
+      'https://mirror-1.example/jpdict/reader/version-en.json',
+      503
+    );
+    fetchMock.route(
+      'https://mirror-2.example/jpdict/reader/version-en.json',
+      KANJI_VERSION_1_0_0
+    );
+    fetchMock.route(
+      'https://mirror-2.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+      503
+    );
+    fetchMock.route(
+      'https://mirror-1.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+      404
+    );
+    fetchMock.route(
+      'https://mirror-3.example/jpdict/reader/kanji/en/1.0.0.jsonl',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+    );
+
+    const abortController = new AbortController();
+    const events = await drainEvents(
+      download({
+        baseUrls: [
+          'https://mirror-1.example/',
+          'https://mirror-2.example/',
+          'https://mirror-3.example/',
+        ],
+        lang: 'en',
+        majorVersion: 1,
+        series: 'kanji',
+        signal: abortController.signal,
+      })
+    );
+
+    expect(events).toMatchObject([
+      { type: 'downloadstart', files: 1 },
+      { type: 'filestart', version: { major: 1, minor: 0, patch: 0 } },
+      { type: 'record', mode: 'add', record: { c: '㐂' } },
+      { type: 'fileend' },
+      { type: 'downloadend' },
+    ]);
+  });
+
+  it('should report a missing data file if no mirror has it', async () => {
+    fetchMock.route('end:version-en.json', KANJI_VERSION_1_0_0);
+    fetchMock.route('end:kanji/en/1.0.0.jsonl', 404);
+
+    const abortController = new AbortController();
+    try {
+      await drainEvents(
+        download({
+          baseUrls: ['https://mirror-1.example/', 'https://mirror-2.example/'],
+          lang: 'en',
+          majorVersion: 1,
+          series: 'kanji',
+          signal: abortController.signal,
+        }),
+        { wrapError: true }
+      );
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError] = parseDrainError(e);
+      assert.strictEqual(downloadError.code, 'DatabaseFileNotFound');
+      assert.strictEqual(
+        downloadError.url,
+        'https://mirror-2.example/jpdict/reader/kanji/en/1.0.0.jsonl'
+      );
+    }
+  });
+
+  it('should verify the checksum of data files', async () => {
+    const file = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`;
+    const checksum = await sha256(file);
+    fetchMock.route('end:version-en.json', {
+      kanji: {
+        '1': {
+          ...KANJI_VERSION_1_0_0.kanji['1'],
+          sha256: { '1.0.0.jsonl': checksum },
+        },
+      },
+    });
+    fetchMock.route('end:kanji/en/1.0.0.jsonl', file);
+
+    const events = await drainEvents(downloadKanjiV1());
+
+    expect(events).toMatchObject([
+      { type: 'downloadstart', files: 1 },
+      { type: 'filestart', checksum },
+      { type: 'record', mode: 'add', record: { c: '㐂' } },
+      { type: 'fileend' },
+      { type: 'downloadend' },
+    ]);
+  });
+
+  it('should fail if the checksum of a data file does not match', async () => {
+    const file = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`;
+    fetchMock.route('end:version-en.json', {
+      kanji: {
+        '1': {
+          ...KANJI_VERSION_1_0_0.kanji['1'],
+          sha256: { '1.0.0.jsonl': await sha256(file) },
+        },
+      },
+    });
+    fetchMock.route(
+      'end:kanji/en/1.0.0.jsonl',
+      file.replace('"sc":6', '"sc":7')
+    );
+
+    try {
+      await drainEvents(downloadKanjiV1(), { wrapError: true });
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      const [downloadError, events] = parseDrainError(e);
+      assert.strictEqual(downloadError.code, 'DatabaseFileChecksumMismatch');
+      assert.notDeepInclude(events, { type: 'fileend' });
+    }
+  });
+
+  it('should download compressed variants of data files', async () => {
+    const file = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`;
+    fetchMock.route('end:version-en.json', {
+      kanji: {
+        '1': {
+          ...KANJI_VERSION_1_0_0.kanji['1'],
+          // The checksum should be that of the uncompressed file
+          sha256: { '1.0.0.jsonl': await sha256(file) },
+          compression: ['gzip'],
+        },
+      },
+    });
+    fetchMock.route('end:kanji/en/1.0.0.jsonl.gz', await gzip(file));
+
+    const events = await drainEvents(downloadKanjiV1());
+
+    expect(events).toMatchObject([
+      { type: 'downloadstart', files: 1 },
+      { type: 'filestart' },
+      { type: 'record', mode: 'add', record: { c: '㐂' } },
+      { type: 'fileend' },
+      { type: 'downloadend' },
+    ]);
+    assert.isFalse(fetchMock.callHistory.called('end:kanji/en/1.0.0.jsonl'));
+  });
+
+  it('should fall back to the uncompressed data file if the compressed variant is missing', async () => {
+    fetchMock.route('end:version-en.json', {
+      kanji: {
+        '1': { ...KANJI_VERSION_1_0_0.kanji['1'], compression: ['gzip'] },
+      },
+    });
+    fetchMock.route('end:kanji/en/1.0.0.jsonl.gz', {
+      status: 404,
+      body: 'Not found',
+    });
+    fetchMock.route(
+      'end:kanji/en/1.0.0.jsonl',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+    );
+
+    const cancelSpy = vi.spyOn(ReadableStream.prototype, 'cancel');
+    try {
+      const events = await drainEvents(downloadKanjiV1());
+
+      expect(events).toMatchObject([
+        { type: 'downloadstart', files: 1 },
+        { type: 'filestart' },
+        { type: 'record', mode: 'add', record: { c: '㐂' } },
+        { type: 'fileend' },
+        { type: 'downloadend' },
+      ]);
+
+      // The body of the missing variant should be released
+      expect(cancelSpy).toHaveBeenCalledOnce();
+    } finally {
+      cancelSpy.mockRestore();
+    }
+  });
+
+  it('should fall back to the uncompressed data file if the compressed variant cannot be fetched', async () => {
+    fetchMock.route('end:version-en.json', {
+      kanji: {
+        '1': { ...KANJI_VERSION_1_0_0.kanji['1'], compression: ['gzip'] },
+      },
+    });
+    fetchMock.route(
+      'end:kanji/en/1.0.0.jsonl',
+      `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+    );
+
+    for (const failure of [503, { throws: new TypeError('Failed to fetch') }]) {
+      clearCachedVersionInfo();
+      fetchMock.removeRoute('variant');
+      fetchMock.route('end:kanji/en/1.0.0.jsonl.gz', failure, {
+        name: 'variant',
+      });
+
+      const events = await drainEvents(downloadKanjiV1());
+
+      expect(events).toMatchObject([
+        { type: 'downloadstart', files: 1 },
+        { type: 'filestart' },
+        { type: 'record', mode: 'add', record: { c: '㐂' } },
+        { type: 'fileend' },
+        { type: 'downloadend' },
+      ]);
+    }
+  });
+
+  it('should skip compressed variants that DecompressionStream does not support', async () => {
+    const NativeDecompressionStream = DecompressionStream;
+    vi.stubGlobal(
+      'DecompressionStream',
+      class extends NativeDecompressionStream {
+        constructor(format: CompressionFormat) {
+          if (format !== 'gzip') {
+            throw new TypeError(`Unsupported compression format: ${format}`);
+          }
+          super(format);
+        }
+      }
+    );
+
+    try {
+      const file = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`;
+      fetchMock.route('end:version-en.json', {
+        kanji: {
+          '1': {
+            ...KANJI_VERSION_1_0_0.kanji['1'],
+            compression: ['br', 'gzip'],
+          },
+        },
+      });
+      fetchMock.route('end:kanji/en/1.0.0.jsonl.gz', await gzip(file));
+
+      const events = await drainEvents(downloadKanjiV1());
+
+      expect(events).toMatchObject([
+        { type: 'downloadstart', files: 1 },
+        { type: 'filestart' },
+        { type: 'record', mode: 'add', record: { c: '㐂' } },
+        { type: 'fileend' },
+        { type: 'downloadend' },
+      ]);
+      assert.isFalse(
+        fetchMock.callHistory.called('end:kanji/en/1.0.0.jsonl.br')
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  it('should decompress gzipped data files when DecompressionStream is not available', async () => {
+    vi.stubGlobal('DecompressionStream', undefined);
+
+    try {
+      const records = Array.from({ length: 500 }, (_, i) =>
+        JSON.stringify({
+          c: String.fromCodePoint(0x4e00 + i),
+          r: {},
+          m: [`meaning ${i}`],
+          rad: { x: 1 },
+          refs: {},
+          misc: { sc: 6 },
+        })
+      );
+      const file = `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":500,"format":"full"}
+${records.join('\n')}
+`;
+      fetchMock.route('end:version-en.json', {
+        kanji: {
+          '1': {
+            ...KANJI_VERSION_1_0_0.kanji['1'],
+            sha256: { '1.0.0.jsonl': await sha256(file) },
+            compression: ['br', 'gzip'],
+          },
+        },
+      });
+      fetchMock.route('end:kanji/en/1.0.0.jsonl.gz', await gzip(file));
+
+      const events = await drainEvents(downloadKanjiV1());
+
+      const recordEvents = events.filter((event) => event.type === 'record');
+      assert.lengthOf(recordEvents, 500);
+      expect(recordEvents[499]).toMatchObject({
+        record: { c: String.fromCodePoint(0x4e00 + 499) },
+      });
+      assert.isFalse(
+        fetchMock.callHistory.called('end:kanji/en/1.0.0.jsonl.br')
+      );
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
   it('should cancel any fetches if the download is canceled', async () => {
     fetchMock.route('end:version-en.json', KANJI_VERSION_1_0_0);
     fetchMock.route(
@@ -1153,6 +1592,23 @@ async function drainEvents(
   return events;
 }
 
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(text)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function gzip(text: string): Promise<ArrayBuffer> {
+  const stream = new Blob([text])
+    .stream()
+    .pipeThrough(new CompressionStream('gzip'));
+  return new Response(stream).arrayBuffer();
+}
+
 // If we get an error while draining, we should return the error along with all
 // the events read up until that point.
 class DrainError extends Error {
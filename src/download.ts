@@ -2,7 +2,9 @@ import * as s from 'superstruct';
 
 import type { DataSeries } from './data-series.js';
 import type { DataVersion } from './data-version.js';
+import type { DownloadErrorCode } from './download-error.js';
 import { DownloadError } from './download-error.js';
+import type { VersionInfo } from './download-version-info.js';
 import { getVersionInfo } from './download-version-info.js';
 import {
   getErrorMessage,
@@ -10,10 +12,12 @@ import {
   isDownloadError,
 } from './error-parsing.js';
 import { fetchWithTimeout } from './fetch.js';
+import { createGzipDecompressionStream } from './gunzip.js';
 import { isObject } from './is-object.js';
 import { ljsonStreamIterator } from './ljson-stream.js';
 import type { PartInfo } from './part-info.js';
 import { stripFields } from './utils.js';
+import { Sha256 } from './sha256.js';
 import { safeInteger } from './validation-helpers.js';
 import type { VersionNumber } from './version-number.js';
 import { compareVersions } from './version-number.js';
@@ -39,6 +43,13 @@ export type FileStartEvent = {
   type: 'filestart';
   version: DataVersion;
   totalRecords: number;
+  // The expected SHA-256 digest of the file, if any.
+  //
+  // If this is set, the file is only verified once it has been read in full
+  // so any records from the file should be discarded if a
+  // DatabaseFileChecksumMismatch error occurs before the corresponding fileend
+  // event.
+  checksum?: string;
 };
 export type FileEndEvent = { type: 'fileend' };
 export type RecordEvent = {
@@ -57,11 +68,36 @@ export type CurrentVersion = VersionNumber & { partInfo?: PartInfo };
 // Configuration constants
 //
 
-const BASE_URL = 'https://data.10ten.life/';
+export const DEFAULT_BASE_URL = 'https://data.10ten.life/';
 
 const DOWNLOAD_TIMEOUT = 20_000;
 
+// The errors for which we try the next mirror (if any).
+//
+// For other errors (e.g. a version file that is not found or a file that is
+// corrupt) we can't expect a mirror to do any better, so we fail immediately.
+const MIRROR_FAILOVER_CODES: ReadonlyArray<DownloadErrorCode> = [
+  'VersionFileNotAccessible',
+  'DatabaseFileNotAccessible',
+  'Timeout',
+];
+
+// The errors for which we try the next mirror when fetching a data file.
+//
+// Since mirrors may not be updated at the same time, a mirror other than the
+// one we fetched the version information from might not have the file yet.
+const DATA_FILE_FAILOVER_CODES: ReadonlyArray<DownloadErrorCode> = [
+  ...MIRROR_FAILOVER_CODES,
+  'DatabaseFileNotFound',
+];
+
 export type DownloadOptions = {
+  // An ordered list of base URLs to download the data from.
+  //
+  // If a request to one of the URLs fails because the server is not
+  // accessible or times out, the next URL in the list is tried. The same
+  // applies when a data file is not found on a mirror.
+  baseUrls?: ReadonlyArray<string>;
   series: DataSeries;
   majorVersion: number;
   currentVersion?: CurrentVersion;
@@ -70,24 +106,24 @@ export type DownloadOptions = {
 };
 
 export async function hasLanguage({
+  baseUrls = [DEFAULT_BASE_URL],
   series,
   majorVersion,
   lang,
   signal,
 }: {
-  baseUrl?: string;
+  baseUrls?: ReadonlyArray<string>;
   series: DataSeries;
   majorVersion: number;
   lang: string;
   signal?: AbortSignal;
 }): Promise<boolean> {
   try {
-    const result = await getVersionInfo({
-      baseUrl: BASE_URL,
+    const result = await getVersionInfoFromMirrors({
+      baseUrls,
       series,
       lang,
       majorVersion,
-      timeout: DOWNLOAD_TIMEOUT,
       signal,
     });
     return !!result;
@@ -97,26 +133,38 @@ export async function hasLanguage({
 }
 
 export async function* download({
+  baseUrls = [DEFAULT_BASE_URL],
   series,
   majorVersion,
   currentVersion,
   lang,
   signal,
 }: DownloadOptions): AsyncIterableIterator<DownloadEvent> {
-  const { info: versionInfo, url: versionFileUrl } = await getVersionInfo({
-    baseUrl: BASE_URL,
+  const {
+    info: versionInfo,
+    url: versionFileUrl,
+    baseUrl,
+  } = await getVersionInfoFromMirrors({
+    baseUrls,
     series,
     lang,
     majorVersion,
-    timeout: DOWNLOAD_TIMEOUT,
     signal,
   });
 
+  // Prefer the mirror we fetched the version information from for the data
+  // files so that we don't wait on a mirror we already know to be unavailable.
+  const fileBaseUrls = [
+    baseUrl,
+    ...baseUrls.filter((otherUrl) => otherUrl !== baseUrl),
+  ];
+
   const { files, type } = getDownloadList({
     currentVersion,
     latestVersion: versionInfo,
     versionFileUrl,
   });
+  const checksums = versionInfo.sha256 || {};
 
   if (type === 'reset' && currentVersion) {
     yield { type: 'reset' };
@@ -125,20 +173,190 @@ export async function* download({
   yield { type: 'downloadstart', files: files.length };
 
   for (const file of files) {
-    yield* getEvents({
-      baseUrl: BASE_URL,
+    const fileName = getDataFilePath({ series, lang, ...file })
+      .split('/')
+      .pop()!;
+    yield* getEventsFromMirrors({
+      baseUrls: fileBaseUrls,
       series,
       lang,
       version: file.version,
       signal,
       format: file.format,
       partInfo: file.partInfo,
+      checksum: checksums[fileName],
+      compression: versionInfo.compression,
+    });
+  }
+
+  yield { type: 'downloadend' };
+}
+
+export type ImportOptions = {
+  series: DataSeries;
+  majorVersion: number;
+  currentVersion?: CurrentVersion;
+  lang: string;
+  // The version of the data the files will update the database to
+  version: VersionNumber & { parts?: number };
+  // The data files in the order they would be downloaded, i.e. each part of
+  // a full version in turn followed by any patches.
+  files: ReadonlyArray<Blob | ReadableStream<Uint8Array>>;
+  signal: AbortSignal;
+};
+
+// Produces the same events as `download` but using local copies of the data
+// files.
+export async function* importFiles({
+  series,
+  majorVersion,
+  currentVersion,
+  lang,
+  version,
+  files,
+  signal,
+}: ImportOptions): AsyncIterableIterator<DownloadEvent> {
+  // Since there is no version file, we use the path it would have had to
+  // identify it in any errors.
+  const versionFileUrl = `jpdict/reader/version-${lang}.json`;
+
+  if (version.major !== majorVersion) {
+    throw new DownloadError(
+      { code: 'MajorVersionNotFound', url: versionFileUrl },
+      `Expected ${majorVersion}.x version of ${series} data but got ${version.major}.x`
+    );
+  }
+
+  const { files: fileSpecs, type } = getDownloadList({
+    currentVersion,
+    latestVersion: version,
+    versionFileUrl,
+  });
+
+  if (fileSpecs.length !== files.length) {
+    throw new DownloadError(
+      { code: 'DatabaseFileVersionMismatch', url: versionFileUrl },
+      `Expected ${fileSpecs.length} file(s) to update ${series} data to version ${version.major}.${version.minor}.${version.patch} but got ${files.length}`
+    );
+  }
+
+  if (type === 'reset' && currentVersion) {
+    yield { type: 'reset' };
+  }
+
+  yield { type: 'downloadstart', files: fileSpecs.length };
+
+  for (const [i, file] of fileSpecs.entries()) {
+    const source = files[i]!;
+    yield* getEventsFromStream({
+      stream: source instanceof Blob ? source.stream() : source,
+      url: getDataFilePath({ series, lang, ...file }),
+      lang,
+      version: file.version,
+      signal,
+      format: file.format,
+      partInfo: file.partInfo,
     });
   }
 
   yield { type: 'downloadend' };
 }
 
+async function getVersionInfoFromMirrors({
+  baseUrls,
+  series,
+  lang,
+  majorVersion,
+  signal,
+}: {
+  baseUrls: ReadonlyArray<string>;
+  series: DataSeries;
+  lang: string;
+  majorVersion: number;
+  signal?: AbortSignal;
+}): Promise<{ info: VersionInfo; url: string; baseUrl: string }> {
+  if (!baseUrls.length) {
+    throw new Error('No base URLs provided');
+  }
+
+  const errors: Array<DownloadError> = [];
+  for (const baseUrl of baseUrls) {
+    try {
+      const result = await getVersionInfo({
+        baseUrl,
+        series,
+        lang,
+        majorVersion,
+        timeout: DOWNLOAD_TIMEOUT,
+        signal,
+      });
+      return { ...result, baseUrl };
+    } catch (e) {
+      if (!shouldTryNextMirror(e)) {
+        throw e;
+      }
+      errors.push(e);
+    }
+  }
+
+  throw getAllMirrorsFailedError(errors);
+}
+
+async function* getEventsFromMirrors({
+  baseUrls,
+  ...options
+}: Omit<GetEventsOptions, 'baseUrl'> & {
+  baseUrls: ReadonlyArray<string>;
+}): AsyncIterableIterator<DownloadEvent> {
+  const errors: Array<DownloadError> = [];
+  for (const baseUrl of baseUrls) {
+    // Once we have passed on any events from a file we can't switch to
+    // another mirror without repeating them so we only try the next mirror
+    // when we fail before that point.
+    let yieldedEvent = false;
+    try {
+      for await (const event of getEvents({ baseUrl, ...options })) {
+        yieldedEvent = true;
+        yield event;
+      }
+      return;
+    } catch (e) {
+      if (yieldedEvent || !shouldTryNextMirror(e, DATA_FILE_FAILOVER_CODES)) {
+        throw e;
+      }
+      errors.push(e);
+    }
+  }
+
+  throw getAllMirrorsFailedError(errors);
+}
+
+function shouldTryNextMirror(
+  e: unknown,
+  codes: ReadonlyArray<DownloadErrorCode> = MIRROR_FAILOVER_CODES
+): e is DownloadError {
+  return isDownloadError(e) && codes.includes(e.code);
+}
+
+// Returns the error to report when every mirror has failed.
+//
+// This takes the code and URL of the last error but lists the URLs of all the
+// mirrors we tried in the message.
+function getAllMirrorsFailedError(
+  errors: ReadonlyArray<DownloadError>
+): DownloadError {
+  const lastError = errors[errors.length - 1]!;
+  if (errors.length === 1) {
+    return lastError;
+  }
+
+  return new DownloadError(
+    { code: lastError.code, url: lastError.url },
+    `${lastError.message} (tried: ${errors.map((e) => e.url).join(', ')})`,
+    { cause: lastError }
+  );
+}
+
 type DownloadFileSpec =
   | { format: 'full'; version: VersionNumber; partInfo?: PartInfo }
   | { format: 'patch'; version: VersionNumber; partInfo?: never };
@@ -307,8 +525,75 @@ type GetEventsOptions = {
   signal: AbortSignal;
   format: 'full' | 'patch';
   partInfo?: PartInfo;
+  checksum?: string;
+  compression?: ReadonlyArray<DataFileCompression>;
 };
 
+type DataFileCompression = NonNullable<VersionInfo['compression']>[number];
+
+const COMPRESSED_FILE_EXTENSIONS: Record<DataFileCompression, string> = {
+  br: '.br',
+  gzip: '.gz',
+};
+
+// Returns a stream for decompressing data in the given format or undefined if
+// the format is not supported.
+function getDecompressionStream(
+  compression: DataFileCompression
+): ReadableWritablePair<Uint8Array, BufferSource> | undefined {
+  // We can handle gzip ourselves if DecompressionStream is not available.
+  if (compression === 'gzip') {
+    return createGzipDecompressionStream();
+  }
+
+  const format = 'brotli';
+  return isSupportedDecompressionFormat(format)
+    ? new DecompressionStream(format)
+    : undefined;
+}
+
+// Checks if DecompressionStream is available and supports `format`.
+//
+// The CompressionFormat type does not yet include all the formats that
+// browsers support (e.g. 'brotli') so we check for support by trying to create
+// a stream with the format.
+function isSupportedDecompressionFormat(
+  format: string
+): format is CompressionFormat {
+  if (typeof DecompressionStream === 'undefined') {
+    return false;
+  }
+
+  try {
+    new DecompressionStream(format as CompressionFormat);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function getDataFilePath({
+  series,
+  lang,
+  version,
+  format,
+  partInfo,
+}: {
+  series: DataSeries;
+  lang: string;
+  version: VersionNumber;
+  format: 'full' | 'patch';
+  partInfo?: PartInfo;
+}): string {
+  const dottedVersion = `${version.major}.${version.minor}.${version.patch}`;
+  const commonPathStart = `jpdict/reader/${series}/${lang}/${dottedVersion}`;
+  return format === 'patch'
+    ? `${commonPathStart}-patch.jsonl`
+    : partInfo
+      ? `${commonPathStart}-${partInfo.part}.jsonl`
+      : `${commonPathStart}.jsonl`;
+}
+
 const HeaderLineStruct = s.type({
   type: s.literal('header'),
   version: s.type({
@@ -333,32 +618,52 @@ async function* getEvents({
   signal,
   format,
   partInfo,
+  checksum,
+  compression,
 }: GetEventsOptions): AsyncIterableIterator<DownloadEvent> {
-  const dottedVersion = `${version.major}.${version.minor}.${version.patch}`;
-  const commonUrlStart = `${baseUrl}jpdict/reader/${series}/${lang}/${dottedVersion}`;
-  const url =
-    format === 'patch'
-      ? `${commonUrlStart}-patch.jsonl`
-      : partInfo
-        ? `${commonUrlStart}-${partInfo.part}.jsonl`
-        : `${commonUrlStart}.jsonl`;
-
-  let response;
-  try {
-    response = await fetchWithTimeout(url, {
-      signal,
-      timeout: DOWNLOAD_TIMEOUT,
-    });
-  } catch (e) {
-    if (isAbortError(e) || isDownloadError(e)) {
-      throw e;
+  let url = `${baseUrl}${getDataFilePath({
+    series,
+    lang,
+    version,
+    format,
+    partInfo,
+  })}`;
+
+  // Try the first compressed variant we support, if any, falling back to the
+  // uncompressed file if we fail to fetch it for any reason.
+  let response: Response | undefined;
+  let decompressionStream:
+    ReadableWritablePair<Uint8Array, BufferSource> | undefined;
+  for (const variant of compression || []) {
+    decompressionStream = getDecompressionStream(variant);
+    if (!decompressionStream) {
+      continue;
     }
 
-    throw new DownloadError(
-      { code: 'DatabaseFileNotFound', url },
-      `Database file ${url} not accessible (${getErrorMessage(e)})`,
-      { cause: e }
-    );
+    const variantUrl = `${url}${COMPRESSED_FILE_EXTENSIONS[variant]}`;
+    try {
+      const variantResponse = await fetchDataFile({ url: variantUrl, signal });
+      if (variantResponse.ok && variantResponse.body !== null) {
+        response = variantResponse;
+        url = variantUrl;
+      } else {
+        // Release the connection before fetching the uncompressed file
+        variantResponse.body?.cancel().catch(() => {});
+      }
+    } catch (e) {
+      if (isAbortError(e)) {
+        throw e;
+      }
+    }
+
+    if (!response) {
+      decompressionStream = undefined;
+    }
+    break;
+  }
+
+  if (!response) {
+    response = await fetchDataFile({ url, signal });
   }
 
   if (!response.ok) {
@@ -379,10 +684,80 @@ async function* getEvents({
     );
   }
 
+  // (As with exporting snapshots, the cast here is needed because the DOM
+  // typings for DecompressionStream take a BufferSource.)
+  const stream = decompressionStream
+    ? (response.body as ReadableStream<BufferSource>).pipeThrough(
+        decompressionStream
+      )
+    : response.body;
+
+  // Progress is based on the number of records read, so we don't need to do
+  // anything special to report progress for compressed files.
+  yield* getEventsFromStream({
+    stream,
+    url,
+    lang,
+    version,
+    signal,
+    format,
+    partInfo,
+    checksum,
+  });
+}
+
+async function fetchDataFile({
+  url,
+  signal,
+}: {
+  url: string;
+  signal: AbortSignal;
+}): Promise<Response> {
+  try {
+    return await fetchWithTimeout(url, { signal, timeout: DOWNLOAD_TIMEOUT });
+  } catch (e) {
+    if (isAbortError(e) || isDownloadError(e)) {
+      throw e;
+    }
+
+    throw new DownloadError(
+      { code: 'DatabaseFileNotAccessible', url },
+      `Database file ${url} not accessible (${getErrorMessage(e)})`,
+      { cause: e }
+    );
+  }
+}
+
+async function* getEventsFromStream({
+  stream,
+  url,
+  lang,
+  version,
+  signal,
+  format,
+  partInfo,
+  checksum,
+}: Omit<GetEventsOptions, 'baseUrl' | 'series'> & {
+  stream: ReadableStream<Uint8Array>;
+  url: string;
+}): AsyncIterableIterator<DownloadEvent> {
   let headerRead = false;
 
+  // Calculate the digest of the file as it is read
+  const hash = checksum ? new Sha256() : undefined;
+  if (hash) {
+    stream = stream.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+          hash.update(chunk);
+          controller.enqueue(chunk);
+        },
+      })
+    );
+  }
+
   for await (const line of ljsonStreamIterator({
-    stream: response.body,
+    stream,
     signal,
     timeout: DOWNLOAD_TIMEOUT,
     url,
@@ -437,6 +812,10 @@ async function* getEvents({
         };
       }
 
+      if (checksum) {
+        fileStartEvent.checksum = checksum;
+      }
+
       yield fileStartEvent;
 
       headerRead = true;
@@ -493,5 +872,15 @@ async function* getEvents({
     );
   }
 
+  if (hash) {
+    const digest = hash.hexDigest();
+    if (digest !== checksum!.toLowerCase()) {
+      throw new DownloadError(
+        { code: 'DatabaseFileChecksumMismatch', url },
+        `Database file checksum mismatch (expected: ${checksum}, got: ${digest})`
+      );
+    }
+  }
+
   yield { type: 'fileend' };
 }
@@ -0,0 +1,184 @@
+import { kanaToHiragana } from '@birchill/normal-jp';
+
+import { isKanji } from './japanese.js';
+
+export type FuriganaSegment = {
+  text: string;
+  // The reading for `text`, if `text` contains kanji
+  ruby?: string;
+};
+
+// Aligns `reading` to the characters of `headword`.
+//
+// `kanjiReadings` maps each kanji to its possible readings in hiragana (with
+// any okurigana removed). Where a kanji has no matching reading, consecutive
+// kanji are grouped together and given whatever part of the reading remains
+// between the surrounding kana.
+//
+// If the reading cannot be aligned, a single segment covering the whole
+// headword is returned.
+export function alignFurigana(
+  headword: string,
+  reading: string,
+  kanjiReadings: Map<string, Array<string>>
+): Array<FuriganaSegment> {
+  const chars = [...headword];
+  const readingChars = [...reading];
+  const hiraganaChars = readingChars.map((c) => kanaToHiragana(c));
+
+  // Positions from which we have already failed to align the rest of the
+  // strings.
+  const failed: Set<string> = new Set();
+
+  const align = (h: number, r: number): Array<FuriganaSegment> | null => {
+    if (h === chars.length) {
+      return r === readingChars.length ? [] : null;
+    }
+
+    const key = `${h}:${r}`;
+    if (failed.has(key)) {
+      return null;
+    }
+
+    const result = alignFrom(h, r);
+    if (!result) {
+      failed.add(key);
+    }
+    return result;
+  };
+
+  const alignFrom = (h: number, r: number): Array<FuriganaSegment> | null => {
+    const c = chars[h]!;
+
+    // Kana (or other characters) should match the reading exactly
+    if (!isKanjiLike(c)) {
+      if (kanaToHiragana(c) !== hiraganaChars[r]) {
+        return null;
+      }
+      const rest = align(h + 1, r + 1);
+      return rest ? [{ text: c }, ...rest] : null;
+    }
+
+    // Try each of the readings for the kanji
+    // (For 々 we use the readings of the previous kanji.)
+    const candidates = expandReadings(
+      kanjiReadings.get(c === '々' && h > 0 ? chars[h - 1]! : c) || []
+    );
+    const remaining = hiraganaChars.slice(r).join('');
+    for (const candidate of candidates) {
+      if (!remaining.startsWith(candidate)) {
+        continue;
+      }
+      const length = [...candidate].length;
+      const rest = align(h + 1, r + length);
+      if (rest) {
+        return [
+          { text: c, ruby: readingChars.slice(r, r + length).join('') },
+          ...rest,
+        ];
+      }
+    }
+
+    // Otherwise, group together the run of kanji and give it the shortest
+    // part of the reading that allows the remainder to be aligned.
+    let end = h + 1;
+    while (end < chars.length && isKanjiLike(chars[end]!)) {
+      end++;
+    }
+    for (let length = 1; r + length <= readingChars.length; length++) {
+      const rest = align(end, r + length);
+      if (rest) {
+        return [
+          {
+            text: chars.slice(h, end).join(''),
+            ruby: readingChars.slice(r, r + length).join(''),
+          },
+          ...rest,
+        ];
+      }
+    }
+
+    return null;
+  };
+
+  const segments = align(0, 0);
+  if (!segments) {
+    return [{ text: headword, ruby: reading }];
+  }
+
+  // Merge runs of kana
+  const result: Array<FuriganaSegment> = [];
+  for (const segment of segments) {
+    const previous = result[result.length - 1];
+    if (!segment.ruby && previous && !previous.ruby) {
+      previous.text += segment.text;
+    } else {
+      result.push(segment);
+    }
+  }
+
+  return result;
+}
+
+// Converts the on and kun readings from the kanji table into the form used by
+// `alignFurigana`, i.e. hiragana with any okurigana and affix markers removed.
+export function normalizeKanjiReadings(readings: Array<string>): Array<string> {
+  return [
+    ...new Set(
+      readings
+        .map((reading) => kanaToHiragana(reading.split('.')[0]!))
+        .map((reading) => reading.replace(/-/g, ''))
+        .filter((reading) => reading.length)
+    ),
+  ];
+}
+
+function isKanjiLike(c: string): boolean {
+  return isKanji(c) || c === '々' || c === 'ヶ' || c === '〆';
+}
+
+// Adds variants of the readings that reflect sound changes that occur when
+// kanji are combined, sorted such that longer readings are tried first.
+function expandReadings(readings: Array<string>): Array<string> {
+  const result: Set<string> = new Set();
+  for (const reading of readings) {
+    result.add(reading);
+
+    // Rendaku, e.g. 人々 (ひとびと)
+    const first = reading[0]!;
+    for (const voiced of RENDAKU[first] || []) {
+      result.add(voiced + reading.slice(1));
+    }
+
+    // Sokuon, e.g. 学校 (がっこう)
+    const last = reading[reading.length - 1]!;
+    if (reading.length > 1 && 'つくちき'.includes(last)) {
+      result.add(reading.slice(0, -1) + 'っ');
+    }
+  }
+
+  return [...result].sort((a, b) => b.length - a.length);
+}
+
+const RENDAKU: Record<string, Array<string>> = {
+  か: ['が'],
+  き: ['ぎ'],
+  く: ['ぐ'],
+  け: ['げ'],
+  こ: ['ご'],
+  さ: ['ざ'],
+  し: ['じ'],
+  す: ['ず'],
+  せ: ['ぜ'],
+  そ: ['ぞ'],
+  た: ['だ'],
+  ち: ['ぢ', 'じ'],
+  つ: ['づ', 'ず'],
+  て: ['で'],
+  と: ['ど'],
+  は: ['ば', 'ぱ'],
+  ひ: ['び', 'ぴ'],
+  ふ: ['ぶ', 'ぷ'],
+  へ: ['べ', 'ぺ'],
+  ほ: ['ぼ', 'ぽ'],
+};
@@ -0,0 +1,431 @@
+// A streaming gzip decoder for environments without DecompressionStream.
+//
+// The decoder is written as a generator that suspends whenever it needs more
+// input so that we can decode the data as it arrives rather than waiting for
+// the whole file.
+//
+// As with DecompressionStream, the input may be any BufferSource.
+
+// Returns a stream for decompressing gzipped data, preferring
+// DecompressionStream when it is available.
+export function createGzipDecompressionStream(): ReadableWritablePair<
+  Uint8Array,
+  BufferSource
+> {
+  return typeof DecompressionStream !== 'undefined'
+    ? new DecompressionStream('gzip')
+    : createGunzipStream();
+}
+
+export function createGunzipStream(): TransformStream<
+  BufferSource,
+  Uint8Array
+> {
+  let output: Array<Uint8Array> = [];
+  const decoder = gunzip((chunk) => output.push(chunk));
+
+  // Run the decoder up to the point where it first asks for input
+  void decoder.next(null);
+
+  const enqueueOutput = (
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    for (const chunk of output) {
+      controller.enqueue(chunk);
+    }
+    output = [];
+  };
+
+  return new TransformStream({
+    transform(chunk, controller) {
+      void decoder.next(
+        ArrayBuffer.isView(chunk)
+          ? new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength)
+          : new Uint8Array(chunk)
+      );
+      enqueueOutput(controller);
+    },
+    flush(controller) {
+      // Passing null indicates the end of the input
+      void decoder.next(null);
+      enqueueOutput(controller);
+    },
+  });
+}
+
+const WINDOW_SIZE = 32768;
+const OUTPUT_CHUNK_SIZE = 65536;
+
+type HuffmanTable = {
+  // Indexed by the next `maxLength` bits of input (in the order they are read)
+  // with each entry containing the symbol shifted left by 4 bits and the
+  // length of its code in the lowest 4 bits (or 0 for an invalid code).
+  entries: Uint16Array;
+  maxLength: number;
+};
+
+function* gunzip(
+  emit: (chunk: Uint8Array) => void
+): Generator<void, void, Uint8Array | null> {
+  let input: Uint8Array = new Uint8Array(0);
+  let pos = 0;
+  let bitBuf = 0;
+  let bitCount = 0;
+
+  const window = new Uint8Array(WINDOW_SIZE);
+  let windowPos = 0;
+  let totalOutput = 0;
+  let out = new Uint8Array(OUTPUT_CHUNK_SIZE);
+  let outPos = 0;
+  let crc = 0;
+
+  const flushOutput = () => {
+    if (outPos) {
+      const chunk = out.slice(0, outPos);
+      crc = crc32(chunk, crc);
+      emit(chunk);
+      outPos = 0;
+    }
+  };
+
+  const putByte = (byte: number) => {
+    window[windowPos] = byte;
+    windowPos = (windowPos + 1) & (WINDOW_SIZE - 1);
+    out[outPos++] = byte;
+    totalOutput++;
+    if (outPos === OUTPUT_CHUNK_SIZE) {
+      crc = crc32(out, crc);
+      emit(out);
+      out = new Uint8Array(OUTPUT_CHUNK_SIZE);
+      outPos = 0;
+    }
+  };
+
+  // Waits for the next chunk of input, returning false if there is none
+  function* nextInput(): Generator<void, boolean, Uint8Array | null> {
+    flushOutput();
+    const chunk = yield;
+    if (!chunk) {
+      return false;
+    }
+    input = chunk;
+    pos = 0;
+    return true;
+  }
+
+  function* requireInput(): Generator<void, void, Uint8Array | null> {
+    while (pos === input.length) {
+      if (!(yield* nextInput())) {
+        throw new Error('Unexpected end of gzip data');
+      }
+    }
+  }
+
+  const refill = () => {
+    while (bitCount <= 24 && pos < input.length) {
+      bitBuf |= input[pos++]! << bitCount;
+      bitCount += 8;
+    }
+  };
+
+  function* needBits(n: number): Generator<void, void, Uint8Array | null> {
+    while (bitCount < n) {
+      yield* requireInput();
+      refill();
+    }
+  }
+
+  const getBits = (n: number): number => {
+    const value = bitBuf & ((1 << n) - 1);
+    bitBuf >>>= n;
+    bitCount -= n;
+    return value;
+  };
+
+  function* readBits(n: number): Generator<void, number, Uint8Array | null> {
+    refill();
+    if (bitCount < n) {
+      yield* needBits(n);
+    }
+    return getBits(n);
+  }
+
+  // Reads a byte from a byte-aligned position
+  function* readByte(): Generator<void, number, Uint8Array | null> {
+    if (bitCount >= 8) {
+      return getBits(8);
+    }
+    yield* requireInput();
+    return input[pos++]!;
+  }
+
+  function* readUint16(): Generator<void, number, Uint8Array | null> {
+    return (yield* readByte()) | ((yield* readByte()) << 8);
+  }
+
+  function* readUint32(): Generator<void, number, Uint8Array | null> {
+    return ((yield* readUint16()) | ((yield* readUint16()) << 16)) >>> 0;
+  }
+
+  function* decodeSymbol(
+    table: HuffmanTable
+  ): Generator<void, number, Uint8Array | null> {
+    refill();
+    if (bitCount < table.maxLength) {
+      yield* needBits(table.maxLength);
+    }
+    const entry = table.entries[bitBuf & ((1 << table.maxLength) - 1)]!;
+    if (!entry) {
+      throw new Error('Invalid Huffman code in gzip data');
+    }
+    getBits(entry & 15);
+    return entry >> 4;
+  }
+
+  function* readMember(): Generator<void, void, Uint8Array | null> {
+    // Header
+    if ((yield* readByte()) !== 0x1f || (yield* readByte()) !== 0x8b) {
+      throw new Error('Invalid gzip header');
+    }
+    if ((yield* readByte()) !== 8) {
+      throw new Error('Unsupported gzip compression method');
+    }
+    const flags = yield* readByte();
+    // Skip MTIME, XFL, and OS
+    for (let i = 0; i < 6; i++) {
+      yield* readByte();
+    }
+    // FEXTRA
+    if (flags & 4) {
+      const length = yield* readUint16();
+      for (let i = 0; i < length; i++) {
+        yield* readByte();
+      }
+    }
+    // FNAME and FCOMMENT
+    for (const flag of [8, 16]) {
+      if (flags & flag) {
+        while ((yield* readByte()) !== 0) {
+          // Skip the zero-terminated string
+        }
+      }
+    }
+    // FHCRC
+    if (flags & 2) {
+      yield* readUint16();
+    }
+
+    // Compressed blocks
+    crc = 0;
+    const startOutput = totalOutput;
+    let lastBlock = false;
+    while (!lastBlock) {
+      lastBlock = (yield* readBits(1)) === 1;
+      const type = yield* readBits(2);
+
+      if (type === 0) {
+        // Stored block
+        getBits(bitCount & 7);
+        const length = yield* readUint16();
+        const lengthComplement = yield* readUint16();
+        if ((length ^ 0xffff) !== lengthComplement) {
+          throw new Error('Invalid stored block length in gzip data');
+        }
+        for (let i = 0; i < length; i++) {
+          putByte(yield* readByte());
+        }
+        continue;
+      }
+
+      let literalTable: HuffmanTable;
+      let distanceTable: HuffmanTable;
+      if (type === 1) {
+        literalTable = FIXED_LITERAL_TABLE;
+        distanceTable = FIXED_DISTANCE_TABLE;
+      } else if (type === 2) {
+        const literalCount = (yield* readBits(5)) + 257;
+        const distanceCount = (yield* readBits(5)) + 1;
+        const codeLengthCount = (yield* readBits(4)) + 4;
+
+        const codeLengthLengths = new Uint8Array(19);
+        for (let i = 0; i < codeLengthCount; i++) {
+          codeLengthLengths[CODE_LENGTH_ORDER[i]!] = yield* readBits(3);
+        }
+        const codeLengthTable = buildHuffmanTable(codeLengthLengths);
+
+        const lengths = new Uint8Array(literalCount + distanceCount);
+        let i = 0;
+        while (i < lengths.length) {
+          const symbol = yield* decodeSymbol(codeLengthTable);
+          if (symbol < 16) {
+            lengths[i++] = symbol;
+            continue;
+          }
+
+          let value = 0;
+          let repeat: number;
+          if (symbol === 16) {
+            if (i === 0) {
+              throw new Error('Invalid code lengths in gzip data');
+            }
+            value = lengths[i - 1]!;
+            repeat = 3 + (yield* readBits(2));
+          } else if (symbol === 17) {
+            repeat = 3 + (yield* readBits(3));
+          } else {
+            repeat = 11 + (yield* readBits(7));
+          }
+          if (i + repeat > lengths.length) {
+            throw new Error('Invalid code lengths in gzip data');
+          }
+          lengths.fill(value, i, i + repeat);
+          i += repeat;
+        }
+
+        literalTable = buildHuffmanTable(lengths.subarray(0, literalCount));
+        distanceTable = buildHuffmanTable(lengths.subarray(literalCount));
+      } else {
+        throw new Error('Invalid block type in gzip data');
+      }
+
+      while (true) {
+        const symbol = yield* decodeSymbol(literalTable);
+        if (symbol < 256) {
+          putByte(symbol);
+          continue;
+        }
+        if (symbol === 256) {
+          break;
+        }
+
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= LENGTH_BASE.length) {
+          throw new Error('Invalid length code in gzip data');
+        }
+        const length =
+          LENGTH_BASE[lengthIndex]! +
+          (yield* readBits(LENGTH_EXTRA_BITS[lengthIndex]!));
+
+        const distanceIndex = yield* decodeSymbol(distanceTable);
+        if (distanceIndex >= DISTANCE_BASE.length) {
+          throw new Error('Invalid distance code in gzip data');
+        }
+        const distance =
+          DISTANCE_BASE[distanceIndex]! +
+          (yield* readBits(DISTANCE_EXTRA_BITS[distanceIndex]!));
+        if (distance > totalOutput - startOutput) {
+          throw new Error('Invalid distance in gzip data');
+        }
+
+        for (let j = 0; j < length; j++) {
+          putByte(window[(windowPos - distance) & (WINDOW_SIZE - 1)]!);
+        }
+      }
+    }
+
+    // Trailer
+    flushOutput();
+    getBits(bitCount & 7);
+    const expectedCrc = yield* readUint32();
+    const expectedSize = yield* readUint32();
+    if (crc >>> 0 !== expectedCrc) {
+      throw new Error('gzip data failed CRC check');
+    }
+    if ((totalOutput - startOutput) >>> 0 !== expectedSize) {
+      throw new Error('gzip data has incorrect length');
+    }
+  }
+
+  while (true) {
+    yield* readMember();
+
+    // Check for another member
+    if (bitCount === 0 && pos === input.length && !(yield* nextInput())) {
+      return;
+    }
+  }
+}
+
+function buildHuffmanTable(lengths: ArrayLike<number>): HuffmanTable {
+  let maxLength = 0;
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) {
+    counts[lengths[i]!]!++;
+    maxLength = Math.max(maxLength, lengths[i]!);
+  }
+  counts[0] = 0;
+
+  const nextCode = new Uint16Array(16);
+  let code = 0;
+  for (let length = 1; length <= 15; length++) {
+    code = (code + counts[length - 1]!) << 1;
+    nextCode[length] = code;
+  }
+
+  const entries = new Uint16Array(1 << maxLength);
+  for (let symbol = 0; symbol < lengths.length; symbol++) {
+    const length = lengths[symbol]!;
+    if (!length) {
+      continue;
+    }
+
+    // Codes are packed starting with their most-significant bit so we need to
+    // reverse them to match the order in which we read bits.
+    const code = nextCode[length]!++;
+    let reversed = 0;
+    for (let i = 0; i < length; i++) {
+      reversed |= ((code >> i) & 1) << (length - 1 - i);
+    }
+
+    for (let i = reversed; i < entries.length; i += 1 << length) {
+      entries[i] = (symbol << 4) | length;
+    }
+  }
+
+  return { entries, maxLength };
+}
+
+const CODE_LENGTH_ORDER = [
+  16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15,
+];
+
+const LENGTH_BASE = [
+  3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67,
+  83, 99, 115, 131, 163, 195, 227, 258,
+];
+const LENGTH_EXTRA_BITS = [
+  0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5,
+  5, 5, 0,
+];
+
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577,
+];
+const DISTANCE_EXTRA_BITS = [
+  0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11,
+  11, 12, 12, 13, 13,
+];
+
+const FIXED_LITERAL_TABLE = buildHuffmanTable(
+  Array.from({ length: 288 }, (_, i) =>
+    i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8
+  )
+);
+const FIXED_DISTANCE_TABLE = buildHuffmanTable(new Uint8Array(30).fill(5));
+
+const CRC_TABLE = new Int32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c;
+});
+
+function crc32(data: Uint8Array, crc: number): number {
+  let c = ~crc;
+  for (let i = 0; i < data.length; i++) {
+    c = CRC_TABLE[(c ^ data[i]!) & 0xff]! ^ (c >>> 8);
+  }
+  return ~c;
+}
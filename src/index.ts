@@ -9,14 +9,17 @@ export {
 } from './data-series.js';
 export type { DataSeriesState } from './data-series-state.js';
 export type { DataVersion } from './data-version.js';
+export type { Reason } from './deinflect.js';
 export {
   type ChangeCallback,
   type ChangeTopic,
   JpdictIdb,
+  type JpdictIdbOptions,
 } from './database.js';
 export { JpdictFullTextDatabase } from './database-fulltext.js';
 export { DownloadError, type DownloadErrorCode } from './download-error.js';
 export { clearCachedVersionInfo } from './download-version-info.js';
+export type { FuriganaSegment } from './furigana.js';
 export { groupSenses, type PosGroup } from './grouping.js';
 export {
   type NameTranslation,
@@ -27,20 +30,58 @@ export {
 export { OfflineError } from './offline-error.js';
 export type { PartInfo } from './part-info.js';
 export {
+  type AccentPattern,
+  type Pitch,
+  type PitchAccentInfo,
+  allAccentPatterns,
+  getAccentPattern,
+  getPitchAccents,
+  splitMorae,
+} from './pitch-accent.js';
+export {
+  type KanjiReadingType,
+  type KanjiSortOrder,
+  type KanjiWordMode,
+  type WordCursor,
+  type WordResultWithCursor,
+  getFurigana,
   getKanji,
+  getKanjiByComponents,
+  getKanjiByReading,
+  getKanjiVariants,
+  getKanjiWithMeaning,
   getNames,
+  getNamesWithTranslation,
+  getRandomKanji,
+  getRandomWords,
+  getVisuallySimilarKanji,
+  getWordById,
   getWords,
   getWordsByCrossReference,
+  getWordsByIds,
+  getWordsByLanguageSource,
+  getWordsDeinflected,
+  getWordsReferencing,
   getWordsWithGloss,
   getWordsWithKanji,
+  getWordsWithPitchAccent,
+  iterateWords,
+  listKanji,
+  scanText,
 } from './query.js';
 export type {
   ExpandedRadical,
   Gloss,
+  KanjiComponentSearchResult,
   KanjiResult,
+  KanjiVariant,
   NameResult,
   RelatedKanji,
+  ScanTextResult,
+  SimilarKanji,
+  WordReferenceResult,
   WordResult,
+  WordsByIdsResult,
 } from './result-types.js';
 export {
   type UpdateErrorState,
@@ -57,6 +98,7 @@ export {
   type UpdateErrorCallback,
   updateWithRetry,
 } from './update-with-retry.js';
+export type { WordFilter } from './word-filter.js';
 export {
   type Accent,
   type CrossReference,
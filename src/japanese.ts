@@ -14,3 +14,12 @@ export function hasHiragana(str: string): boolean {
     .map((c) => c.codePointAt(0)!)
     .some((c) => c >= 0x3041 && c <= 0x309f);
 }
+
+export function hiraganaToKatakana(str: string): string {
+  return [...str]
+    .map((c) => {
+      const cp = c.codePointAt(0)!;
+      return cp >= 0x3041 && cp <= 0x3096 ? String.fromCodePoint(cp + 0x60) : c;
+    })
+    .join('');
+}
@@ -9,6 +9,8 @@ export type KanjiRecord = {
   st?: string;
   comp?: string;
   cf?: string;
+  // Variant forms of the kanji (e.g. the old form of a simplified kanji)
+  var?: string;
 };
 
 export type KanjiReading = {
@@ -0,0 +1,57 @@
+// Glob-style patterns for matching headwords
+//
+// `?` matches any single character and `*` matches any run of characters
+// (including none). The full-width equivalents ？ and ＊ are also accepted.
+//
+// Leading and trailing `*` wildcards are not included in the match range so,
+// for example, matching `*曜日` against 月曜日 gives a range covering 曜日.
+
+export function normalizePattern(pattern: string): string {
+  return pattern.replace(/＊/g, '*').replace(/？/g, '?').replace(/\*+/g, '*');
+}
+
+export function hasWildcards(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+export function patternToRegExp(pattern: string): RegExp {
+  const normalized = normalizePattern(pattern);
+
+  let source = '';
+  const parts = normalized.split('*');
+  for (const [i, part] of parts.entries()) {
+    // Leading and trailing wildcards are handled by not anchoring the
+    // expression.
+    const isLeadingWildcard = i === 1 && parts[0] === '';
+    const isTrailingWildcard = i === parts.length - 1 && part === '';
+    if (i > 0 && !isLeadingWildcard && !isTrailingWildcard) {
+      source += '.*?';
+    }
+    source += [...part]
+      .map((c) => (c === '?' ? '.' : c.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')))
+      .join('');
+  }
+
+  const anchorStart = !normalized.startsWith('*');
+  const anchorEnd = !normalized.endsWith('*');
+
+  return new RegExp(
+    `${anchorStart ? '^' : ''}${source}${anchorEnd ? '$' : ''}`,
+    'u'
+  );
+}
+
+// Returns the characters before the first wildcard
+export function getLiteralPrefix(pattern: string): string {
+  return normalizePattern(pattern).split(/[*?]/)[0]!;
+}
+
+// Returns the characters after the last wildcard
+export function getLiteralSuffix(pattern: string): string {
+  return normalizePattern(pattern).split(/[*?]/).pop()!;
+}
+
+// Returns the minimum number of characters a string must have to match
+export function getMinimumLength(pattern: string): number {
+  return [...normalizePattern(pattern)].filter((c) => c !== '*').length;
+}
@@ -0,0 +1,105 @@
+import type { ExtendedKanaEntry } from './result-types.js';
+
+export const allAccentPatterns = [
+  // No drop in pitch (including on a following particle), e.g. さかな
+  'heiban',
+  // Drop in pitch after the first mora, e.g. いのち
+  'atamadaka',
+  // Drop in pitch after a mora in the middle of the word, e.g. こころ
+  'nakadaka',
+  // Drop in pitch after the last mora (i.e. on a following particle),
+  // e.g. はな (flower)
+  'odaka',
+] as const;
+
+export type AccentPattern = (typeof allAccentPatterns)[number];
+
+export type Pitch = 'high' | 'low';
+
+export type PitchAccentInfo = {
+  // The mora after which the drop in pitch occurs (0 = no drop)
+  accent: number;
+  pattern: AccentPattern;
+  morae: Array<string>;
+  // The pitch of each mora in `morae`
+  pitch: Array<Pitch>;
+  // The pitch of a particle following the word. This distinguishes heiban
+  // from odaka words.
+  particlePitch: Pitch;
+  // The parts of speech this accent applies to, if specified
+  pos?: Array<string>;
+};
+
+// Returns the (Tokyo dialect) pitch accent information for the given kana
+// headword, or an empty array if there is no accent information.
+//
+// There is one result for each of the possible accents of the word.
+export function getPitchAccents(
+  entry: Pick<ExtendedKanaEntry, 'ent' | 'a'>
+): Array<PitchAccentInfo> {
+  if (typeof entry.a === 'undefined') {
+    return [];
+  }
+
+  const morae = splitMorae(entry.ent);
+  const accents = typeof entry.a === 'number' ? [{ i: entry.a }] : entry.a;
+
+  return accents.map(({ i: accent, pos }) => {
+    const pitch = morae.map((_, i) => getPitch(accent, i));
+    const result: PitchAccentInfo = {
+      accent,
+      pattern: getAccentPattern(accent, morae.length),
+      morae,
+      pitch,
+      particlePitch: getPitch(accent, morae.length),
+    };
+    if (pos) {
+      result.pos = pos;
+    }
+    return result;
+  });
+}
+
+export function getAccentPattern(
+  accent: number,
+  moraCount: number
+): AccentPattern {
+  if (accent === 0) {
+    return 'heiban';
+  }
+  if (accent === 1) {
+    return 'atamadaka';
+  }
+  return accent >= moraCount ? 'odaka' : 'nakadaka';
+}
+
+// Returns the pitch of the mora at `index` for a word with the given accent
+function getPitch(accent: number, index: number): Pitch {
+  if (accent === 1) {
+    return index === 0 ? 'high' : 'low';
+  }
+
+  // Other than atamadaka words, the first mora is low and the pitch remains
+  // high until the accent.
+  return index === 0 || (accent !== 0 && index >= accent) ? 'low' : 'high';
+}
+
+// Splits a kana string into morae such that small ゃ, ゅ, ょ etc. are combined
+// with the preceding kana.
+//
+// Note that っ, ん and ー each count as a separate mora.
+export function splitMorae(kana: string): Array<string> {
+  const result: Array<string> = [];
+  for (const c of kana) {
+    if (result.length && isCombiningKana(c)) {
+      result[result.length - 1] += c;
+    } else {
+      result.push(c);
+    }
+  }
+  return result;
+}
+
+function isCombiningKana(c: string): boolean {
+  return 'ぁぃぅぇぉゃゅょゎァィゥェォャュョヮ'.includes(c);
+}
@@ -9,16 +9,38 @@ import {
   it,
 } from 'vitest';
 
+import { JpdictIdb } from './database.js';
 import { JpdictFullTextDatabase } from './database-fulltext.js';
 import { clearCachedVersionInfo } from './download-version-info.js';
 import {
+  type WordCursor,
+  type WordResultWithCursor,
+  getFurigana,
   getKanji,
+  getKanjiByComponents,
+  getKanjiByReading,
+  getKanjiVariants,
+  getKanjiWithMeaning,
   getNames,
+  getNamesWithTranslation,
+  getRandomKanji,
+  getRandomWords,
+  getVisuallySimilarKanji,
+  getWordById,
   getWords,
   getWordsByCrossReference,
+  getWordsByIds,
+  getWordsByLanguageSource,
+  getWordsDeinflected,
+  getWordsReferencing,
   getWordsWithGloss,
   getWordsWithKanji,
+  getWordsWithPitchAccent,
+  iterateWords,
+  listKanji,
+  scanText,
 } from './query.js';
+import { getPitchAccents } from './pitch-accent.js';
 import type { NameResult, WordResult } from './result-types.js';
 
 const VERSION_INFO = {
@@ -447,6 +469,286 @@ describe('query', { timeout: 15_000 }, function () {
     ]);
   });
 
+  it('should fetch kanji by reading', async () => {
+    await db.ready;
+
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:kanji/en/5.0.0.jsonl',
+      `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":2,"format":"full"}
+{"c":"引","r":{"py":["yin3"],"on":["イン"],"kun":["ひ.く","ひ.ける"],"na":["いな","ひき","ひけ","びき"]},"m":["pull","tug","jerk","admit","install","quote","refer to"],"rad":{"x":57},"refs":{"nelson_c":1562,"halpern_njecd":181},"misc":{"sc":4,"gr":2,"freq":218,"jlpt":3,"kk":9,"wk":3,"jlptn":4},"comp":"⼸{057-hen}⼁"}
+{"c":"弘","r":{"py":["hong2"],"on":["コウ","グ"],"kun":["ひろ.い"],"na":["ひろ","ひろし","ひろむ"]},"m":["vast","broad","wide"],"rad":{"x":57},"refs":{"nelson_c":1564,"halpern_njecd":188},"misc":{"sc":5,"gr":8,"freq":1707,"jlptn":1,"kk":4},"comp":"⼸{057-hen}⼛"}
+`
+    );
+    fetchMock.route(
+      'end:radicals/en/4.0.0.jsonl',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":4,"format":"full"}
+{"id":"002","r":2,"b":"⼁","k":"｜","s":1,"na":["たてぼう","ぼう"],"m":["stick"]}
+{"id":"028","r":28,"b":"⼛","k":"厶","s":2,"na":["む"],"m":["myself"]}
+{"id":"057","r":57,"b":"⼸","k":"弓","s":3,"na":["ゆみ"],"m":["bow","bow (archery, violin)"]}
+{"id":"057-hen","r":57,"b":"⼸","k":"弓","pua":59218,"s":3,"na":["ゆみへん"],"m":["bow","bow (archery, violin)"],"posn":"hen"}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    // Kun reading ignoring the okurigana dot
+    let result = await getKanjiByReading({ reading: 'ひく', lang: 'en' });
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['引']
+    );
+    assert.nestedInclude(result[0], {
+      'rad.x.c': '⼸',
+      'comp[0].c': '⼸',
+      'comp[1].c': '⼁',
+      m_lang: 'en',
+    });
+
+    // On reading using hiragana
+    result = await getKanjiByReading({ reading: 'いん', lang: 'en' });
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['引']
+    );
+
+    // Kun reading using katakana
+    result = await getKanjiByReading({ reading: 'ヒロイ', lang: 'en' });
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['弘']
+    );
+
+    // Restricting the reading type
+    result = await getKanjiByReading({
+      reading: 'ひろ',
+      type: 'kun',
+      lang: 'en',
+    });
+    assert.lengthOf(result, 0);
+    result = await getKanjiByReading({
+      reading: 'ひろ',
+      type: 'na',
+      lang: 'en',
+    });
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['弘']
+    );
+
+    // Prefix matching (sorted by frequency)
+    result = await getKanjiByReading({
+      reading: 'ひ',
+      matchType: 'startsWith',
+      lang: 'en',
+    });
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['引', '弘']
+    );
+  });
+
+  it('should fetch kanji by components', async () => {
+    await db.ready;
+
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:kanji/en/5.0.0.jsonl',
+      `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":4,"format":"full"}
+{"c":"引","r":{"on":["イン"],"kun":["ひ.く","ひ.ける"]},"m":["pull","tug"],"rad":{"x":57},"refs":{"nelson_c":1562},"misc":{"sc":4,"gr":2,"freq":218},"comp":"⼸{057-hen}⼁"}
+{"c":"弘","r":{"on":["コウ","グ"],"kun":["ひろ.い"]},"m":["vast","broad","wide"],"rad":{"x":57},"refs":{"nelson_c":1564},"misc":{"sc":5,"gr":8,"freq":1707},"comp":"⼸{057-hen}⼛"}
+{"c":"凶","r":{"on":["キョウ"]},"m":["villain","evil","bad luck","disaster"],"rad":{"x":17},"refs":{"nelson_c":663},"misc":{"sc":4,"gr":8,"freq":1673},"comp":"⼂⼃⼐"}
+{"c":"胸","r":{"on":["キョウ"],"kun":["むね","むな-"]},"m":["bosom","breast","chest"],"rad":{"x":130},"refs":{"nelson_c":3768},"misc":{"sc":10,"gr":6,"freq":1144},"comp":"⽉{130-2}⼓凶"}
+`
+    );
+    fetchMock.route(
+      'end:radicals/en/4.0.0.jsonl',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":2,"format":"full"}
+{"id":"057","r":57,"b":"⼸","k":"弓","s":3,"na":["ゆみ"],"m":["bow","bow (archery, violin)"]}
+{"id":"057-hen","r":57,"b":"⼸","k":"弓","pua":59218,"s":3,"na":["ゆみへん"],"m":["bow","bow (archery, violin)"],"posn":"hen"}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    let result = await getKanjiByComponents(['⼸']);
+    assert.deepEqual(result, {
+      kanji: [
+        { c: '引', sc: 4 },
+        { c: '弘', sc: 5 },
+      ],
+      nextComponents: ['⼁', '⼛'],
+    });
+
+    // Kanji form of a radical
+    result = await getKanjiByComponents(['弓']);
+    assert.deepEqual(
+      result.kanji.map((k) => k.c),
+      ['引', '弘']
+    );
+
+    // Multiple components
+    result = await getKanjiByComponents(['⼸', '⼛']);
+    assert.deepEqual(result, {
+      kanji: [{ c: '弘', sc: 5 }],
+      nextComponents: [],
+    });
+
+    // Kanji as a component
+    result = await getKanjiByComponents(['凶']);
+    assert.deepEqual(result, {
+      kanji: [{ c: '胸', sc: 10 }],
+      nextComponents: ['⼓', '⽉'],
+    });
+
+    // Stroke range
+    result = await getKanjiByComponents(['⼸'], { strokeRange: [5, 10] });
+    assert.deepEqual(
+      result.kanji.map((k) => k.c),
+      ['弘']
+    );
+  });
+
+  it('should fetch kanji by meaning', async () => {
+    await db.ready;
+
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:kanji/en/5.0.0.jsonl',
+      `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":3,"format":"full"}
+{"c":"胸","r":{"on":["キョウ"],"kun":["むね","むな-"]},"m":["bosom","breast","chest","heart","feelings"],"rad":{"x":130},"refs":{"nelson_c":3768},"misc":{"sc":10,"gr":6,"freq":1144,"jlpt":2,"jlptn":2}}
+{"c":"心","r":{"on":["シン"],"kun":["こころ","-ごころ"]},"m":["heart","mind","spirit"],"rad":{"x":61},"refs":{"nelson_c":1645},"misc":{"sc":4,"gr":2,"freq":157,"jlpt":3,"jlptn":4}}
+{"c":"引","r":{"on":["イン"],"kun":["ひ.く","ひ.ける"]},"m":["pull","tug","jerk","admit","install","quote","refer to"],"rad":{"x":57},"refs":{"nelson_c":1562},"misc":{"sc":4,"gr":2,"freq":218,"jlpt":3,"jlptn":4}}
+`
+    );
+    fetchMock.route(
+      'end:radicals/en/4.0.0.jsonl',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":3,"format":"full"}
+{"id":"057","r":57,"b":"⼸","k":"弓","s":3,"na":["ゆみ"],"m":["bow","bow (archery, violin)"]}
+{"id":"061","r":61,"b":"⼼","k":"心","s":4,"na":["こころ"],"m":["heart"]}
+{"id":"130","r":130,"b":"⾁","k":"肉","s":6,"na":["にく"],"m":["meat"]}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    let result = await getKanjiWithMeaning('heart', 'en');
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['心', '胸']
+    );
+    assert.nestedInclude(result[0], {
+      'rad.x.c': '⼼',
+      'm[0]': 'heart',
+      m_lang: 'en',
+    });
+
+    // Prefix match on a token
+    result = await getKanjiWithMeaning('Brea', 'en');
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['胸']
+    );
+
+    // Multiple tokens
+    result = await getKanjiWithMeaning('refer to', 'en');
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['引']
+    );
+
+    // Limit
+    result = await getKanjiWithMeaning('heart', 'en', 1);
+    assert.deepEqual(
+      result.map((k) => k.c),
+      ['心']
+    );
+  });
+
+  it('should list kanji', async () => {
+    await db.ready;
+
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:kanji/en/5.0.0.jsonl',
+      `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":5,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265},"misc":{"sc":6}}
+{"c":"引","r":{"on":["イン"],"kun":["ひ.く","ひ.ける"]},"m":["pull","tug"],"rad":{"x":57},"refs":{"nelson_c":1562},"misc":{"sc":4,"gr":2,"freq":218,"jlpt":3,"jlptn":4,"kk":9,"wk":3}}
+{"c":"弘","r":{"on":["コウ","グ"],"kun":["ひろ.い"]},"m":["vast","broad","wide"],"rad":{"x":57},"refs":{"nelson_c":1564},"misc":{"sc":5,"gr":8,"freq":1707,"jlptn":1,"kk":4}}
+{"c":"心","r":{"on":["シン"],"kun":["こころ","-ごころ"]},"m":["heart","mind","spirit"],"rad":{"x":61},"refs":{"nelson_c":1645},"misc":{"sc":4,"gr":2,"freq":157,"jlpt":3,"jlptn":4,"kk":9,"wk":5}}
+{"c":"胸","r":{"on":["キョウ"],"kun":["むね","むな-"]},"m":["bosom","breast","chest"],"rad":{"x":130},"refs":{"nelson_c":3768},"misc":{"sc":10,"gr":6,"freq":1144,"jlpt":2,"jlptn":2,"kk":5,"wk":17}}
+`
+    );
+    fetchMock.route(
+      'end:radicals/en/4.0.0.jsonl',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":4,"format":"full"}
+{"id":"001","r":1,"b":"⼀","k":"一","s":1,"na":["いち"],"m":["one"]}
+{"id":"057","r":57,"b":"⼸","k":"弓","s":3,"na":["ゆみ"],"m":["bow","bow (archery, violin)"]}
+{"id":"061","r":61,"b":"⼼","k":"心","s":4,"na":["こころ"],"m":["heart"]}
+{"id":"130","r":130,"b":"⾁","k":"肉","s":6,"na":["にく"],"m":["meat"]}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    const listKanjiChars = async (
+      options: Omit<Parameters<typeof listKanji>[0], 'lang'>
+    ) => (await listKanji({ ...options, lang: 'en' })).map((k) => k.c);
+
+    // No filters
+    assert.deepEqual(await listKanjiChars({}), ['㐂', '引', '弘', '心', '胸']);
+    assert.deepEqual(await listKanjiChars({ sortBy: 'freq' }), [
+      '心',
+      '引',
+      '胸',
+      '弘',
+      '㐂',
+    ]);
+    assert.deepEqual(
+      await listKanjiChars({ sortBy: 'freq', offset: 3, limit: 2 }),
+      ['弘', '㐂']
+    );
+    assert.deepEqual(await listKanjiChars({ sortBy: 'freq', offset: 4 }), [
+      '㐂',
+    ]);
+    assert.deepEqual(
+      await listKanjiChars({ sortBy: 'strokeCount', offset: 1, limit: 2 }),
+      ['心', '弘']
+    );
+
+    // Filters
+    assert.deepEqual(await listKanjiChars({ jlpt: 4, sortBy: 'freq' }), [
+      '心',
+      '引',
+    ]);
+    assert.deepEqual(await listKanjiChars({ grade: 2, kanken: 9 }), [
+      '引',
+      '心',
+    ]);
+    assert.deepEqual(await listKanjiChars({ wkLevel: 17 }), ['胸']);
+    assert.deepEqual(
+      await listKanjiChars({ strokeCount: [4, 5], sortBy: 'strokeCount' }),
+      ['引', '心', '弘']
+    );
+    assert.deepEqual(
+      await listKanjiChars({ grade: 2, strokeCount: [5, 10] }),
+      []
+    );
+    assert.deepEqual(
+      await listKanjiChars({ strokeCount: [4, 10], sortBy: 'freq', limit: 2 }),
+      ['心', '引']
+    );
+
+    // Full results
+    const result = await listKanji({ wkLevel: 3, lang: 'en' });
+    assert.nestedInclude(result[0], {
+      c: '引',
+      'rad.x.c': '⼸',
+      'misc.wk': 3,
+      m_lang: 'en',
+    });
+  });
+
   it('should fetch names by kanji', async () => {
     fetchMock.route('end:version-en.json', VERSION_INFO);
     fetchMock.route(
@@ -527,6 +829,107 @@ describe('query', { timeout: 15_000 }, function () {
     );
   });
 
+  it('should fetch names by prefix and type', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:names/en/3.0.0.jsonl',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":5,"format":"full"}
+{"r":["マルタ"],"id":5082405,"tr":[{"type":["place"],"det":["Malta"]},{"type":["fem"],"det":["Marta","Martha"]}]}
+{"r":["まるた"],"k":["円田"],"id":5143227,"tr":[{"type":["surname"],"det":["Maruta"]}]}
+{"r":["まるたえき"],"k":["丸田駅"],"id":5193600,"tr":[{"type":["station"],"det":["Maruta Station"]}]}
+{"r":["まる"],"k":["丸"],"id":5193500,"tr":[{"type":["surname"],"det":["Maru"]}]}
+{"r":["まるたまち"],"k":["丸太町"],"id":5193529,"tr":[{"type":["place"],"det":["Marutamachi"]}]}
+`
+    );
+
+    await db.update({ series: 'names', lang: 'en' });
+
+    // Exact matches first, then by length
+    let result = await getNames('まるた', { matchType: 'startsWith' });
+    assert.deepEqual(
+      result.map((result) => result.id),
+      [5143227, 5082405, 5193600, 5193529]
+    );
+
+    // Limit
+    result = await getNames('まるた', { matchType: 'startsWith', limit: 2 });
+    assert.deepEqual(
+      result.map((result) => result.id),
+      [5143227, 5082405]
+    );
+
+    // Type filter
+    result = await getNames('まる', {
+      matchType: 'startsWith',
+      types: ['station', 'place'],
+    });
+    assert.deepEqual(
+      result.map((result) => result.id),
+      [5082405, 5193600, 5193529]
+    );
+
+    // Type filter with an exact match
+    result = await getNames('まるた', { types: ['surname', 'given'] });
+    assert.deepEqual(
+      result.map((result) => result.id),
+      [5143227]
+    );
+  });
+
+  it('should fetch names by translation', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:names/en/3.0.0.jsonl',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":5,"format":"full"}
+{"r":["しんじゅく"],"k":["新宿"],"id":5001,"tr":[{"type":["place"],"det":["Shinjuku"]}]}
+{"r":["しんじゅくえき"],"k":["新宿駅"],"id":5002,"tr":[{"type":["station"],"det":["Shinjuku Station"]}]}
+{"r":["たなかまち"],"k":["田中町"],"id":5003,"tr":[{"type":["place"],"det":["Tanakamachi"]}]}
+{"r":["たなか"],"k":["田中"],"id":5004,"tr":[{"type":["place"],"det":["Tanaka"]},{"type":["surname"],"det":["Tanaka"]}]}
+{"r":["なかまち"],"k":["中町"],"id":5005,"tr":[{"type":["place"],"det":["Naka Nakamachi"]}]}
+`
+    );
+
+    await db.update({ series: 'names', lang: 'en' });
+
+    let result = await getNamesWithTranslation('Shinjuku Station');
+    const expected: Array<NameResult> = [
+      {
+        r: ['しんじゅくえき'],
+        k: ['新宿駅'],
+        id: 5002,
+        tr: [{ type: ['station'], det: ['Shinjuku Station'] }],
+        matchRanges: [[0, 0, 0, 16]],
+      },
+    ];
+    assert.deepEqual(result, expected);
+
+    // Better matches should come first
+    result = await getNamesWithTranslation('tanaka');
+    assert.deepEqual(
+      result.map((result) => result.id),
+      [5004, 5003]
+    );
+    assert.deepEqual(result[0]!.matchRanges, [
+      [0, 0, 0, 6],
+      [1, 0, 0, 6],
+    ]);
+
+    // Records with several tokens matching the prefix should only be returned
+    // once
+    result = await getNamesWithTranslation('naka');
+    assert.deepEqual(
+      result.map((result) => result.id),
+      [5005]
+    );
+
+    // Limit
+    result = await getNamesWithTranslation('shinjuku', 1);
+    assert.deepEqual(
+      result.map((result) => result.id),
+      [5001]
+    );
+  });
+
   it('should fetch words by kanji', async () => {
     fetchMock.route('end:version-en.json', VERSION_INFO);
     fetchMock.route(
@@ -1410,4 +1813,1104 @@ describe('query', { timeout: 15_000 }, function () {
       's[5].match': false,
     });
   });
+
+  it('should fetch words by deinflecting', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":3,"format":"full"}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]},{"pos":["v1","vt"],"g":["to live on (e.g. a salary)","to live off","to subsist on"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["たかい"],"s":[{"pos":["adj-i"],"g":["high","tall"]},{"pos":["adj-i"],"g":["expensive","high-priced"]}],"k":["高い"],"id":1579470,"km":[{"p":["i1","n1","nf04"]}],"rm":[{"p":["i1","n1","nf04"],"a":2}]}
+{"r":["たかい"],"s":[{"pos":["n","vs","vi"],"g":["death"],"misc":["hon"]}],"k":["他界"],"id":1408100,"km":[{"p":["n1","nf12"]}],"rm":[{"p":["n1","nf12"],"a":0}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    // Multiple possible chains
+    let result = await getWordsDeinflected('食べられなかった');
+    assert.lengthOf(result, 1);
+    assert.nestedInclude(result[0], {
+      id: 1358280,
+      'k[0].ent': '食べる',
+      'k[0].match': true,
+      'k[0].matchRange[0]': 0,
+      'k[0].matchRange[1]': 3,
+      's[0].match': true,
+      's[1].match': true,
+    });
+    assert.deepEqual(result[0]!.reasonChains, [
+      ['passive', 'negative', 'past'],
+      ['potential', 'negative', 'past'],
+    ]);
+
+    // Adjective
+    result = await getWordsDeinflected('高くて');
+    assert.lengthOf(result, 1);
+    assert.nestedInclude(result[0], { id: 1579470 });
+    assert.deepEqual(result[0]!.reasonChains, [['te']]);
+
+    // Part-of-speech filtering: たかくて should not match 他界 since it is not
+    // an i-adjective
+    result = await getWordsDeinflected('たかくて');
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1579470]
+    );
+
+    // Uninflected words should be returned without reasons
+    result = await getWordsDeinflected('たかい');
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1579470, 1408100]
+    );
+    assert.isUndefined(result[0]!.reasonChains);
+
+    // Suru verbs
+    result = await getWordsDeinflected('他界した');
+    assert.lengthOf(result, 1);
+    assert.nestedInclude(result[0], { id: 1408100 });
+    assert.deepEqual(result[0]!.reasonChains, [['past']]);
+
+    // Nouns that take する should be checked for the part-of-speech too
+    result = await getWordsDeinflected('たかいする');
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1408100]
+    );
+    assert.deepEqual(result[0]!.reasonChains, [[]]);
+  });
+
+  it('should scan text for the longest match', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":3,"format":"full"}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["しょく"],"s":[{"pos":["n"],"g":["food","foodstuff"]}],"k":["食"],"id":1356940,"km":[{"p":["n1","nf04"]}],"rm":[{"p":["n1","nf04"],"a":1}]}
+{"r":["とき"],"s":[{"pos":["n"],"g":["time","hour"]}],"k":["時"],"id":1315840,"km":[{"p":["i1","n1","nf02"]}],"rm":[{"p":["i1","n1","nf02"],"a":2}]}
+`
+    );
+    fetchMock.route(
+      'end:names/en/3.0.0.jsonl',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":1,"format":"full"}
+{"r":["たなか"],"k":["田中"],"id":5004,"tr":[{"type":["surname"],"det":["Tanaka"]}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+    await db.update({ series: 'names', lang: 'en' });
+
+    // Longest match with deinflection
+    let result = await scanText('食べられなかったです');
+    assert.equal(result?.type, 'words');
+    assert.equal(result?.matchLength, 8);
+    assert.deepEqual(
+      result?.type === 'words' ? result.words.map((word) => word.id) : [],
+      [1358280]
+    );
+
+    // Without deinflection
+    result = await scanText('食べられなかったです', { deinflect: false });
+    assert.equal(result?.matchLength, 1);
+    assert.deepEqual(
+      result?.type === 'words' ? result.words.map((word) => word.id) : [],
+      [1356940]
+    );
+
+    // Kana equivalence
+    result = await scanText('トキどき');
+    assert.equal(result?.matchLength, 2);
+    assert.deepEqual(
+      result?.type === 'words' ? result.words.map((word) => word.id) : [],
+      [1315840]
+    );
+
+    // Max length
+    result = await scanText('食べる', { maxLength: 2 });
+    assert.equal(result?.matchLength, 1);
+
+    // Names fallback
+    result = await scanText('田中さん', { includeNames: true });
+    assert.equal(result?.type, 'names');
+    assert.equal(result?.matchLength, 2);
+    assert.deepEqual(
+      result?.type === 'names' ? result.names.map((name) => name.id) : [],
+      [5004]
+    );
+
+    // No match
+    assert.isNull(await scanText('田中さん'));
+  });
+
+  it('should fetch words and names using romaji', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":5,"format":"full"}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["とうきょう"],"s":[{"pos":["n"],"g":["Tokyo"]}],"k":["東京"],"id":1444100,"km":[{"p":["n1","nf01"]}],"rm":[{"p":["n1","nf01"],"a":0}]}
+{"r":["きんえん"],"s":[{"pos":["n","vs","vi"],"g":["abstaining from smoking"]}],"k":["禁煙"],"id":1240600,"km":[{"p":["n1","nf14"]}],"rm":[{"p":["n1","nf14"],"a":0}]}
+{"r":["きねん"],"s":[{"pos":["n","vs","vt"],"g":["commemoration","memory"]}],"k":["記念"],"id":1223540,"km":[{"p":["i1","n1","nf06"]}],"rm":[{"p":["i1","n1","nf06"],"a":0}]}
+{"r":["いっしょ"],"s":[{"pos":["n"],"g":["together"]}],"k":["一緒"],"id":1163400,"km":[{"p":["i1","n1","nf03"]}],"rm":[{"p":["i1","n1","nf03"],"a":0}]}
+`
+    );
+    fetchMock.route(
+      'end:names/en/3.0.0.jsonl',
+      `{"type":"header","version":{"major":3,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":1,"format":"full"}
+{"r":["しんじゅく"],"k":["新宿"],"id":5001,"tr":[{"type":["place"],"det":["Shinjuku"]}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+    await db.update({ series: 'names', lang: 'en' });
+
+    // Hepburn
+    let result = await getWords('taberu', { limit: 10, romaji: true });
+    assert.lengthOf(result, 1);
+    assert.nestedInclude(result[0], {
+      id: 1358280,
+      romajiMatch: 'たべる',
+      'r[0].match': true,
+      'r[0].matchRange[0]': 0,
+      'r[0].matchRange[1]': 3,
+    });
+
+    // Romaji is only converted when requested
+    result = await getWords('taberu', { limit: 10 });
+    assert.lengthOf(result, 0);
+
+    // Long vowels
+    result = await getWords('Tōkyō', { limit: 10, romaji: true });
+    assert.deepEqual(
+      result.map((r) => [r.id, r.romajiMatch]),
+      [[1444100, 'とうきょう']]
+    );
+
+    // Wāpuro romaji
+    result = await getWords('toukyou', { limit: 10, romaji: true });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1444100]
+    );
+
+    // Kunrei romaji with っ
+    result = await getWords('issyo', { limit: 10, romaji: true });
+    assert.deepEqual(
+      result.map((r) => [r.id, r.romajiMatch]),
+      [[1163400, 'いっしょ']]
+    );
+
+    // Ambiguous ん
+    result = await getWords('kinen', { limit: 10, romaji: true });
+    assert.sameMembers(
+      result.map((r) => r.romajiMatch),
+      ['きねん', 'きんえん']
+    );
+    result = await getWords("kin'en", { limit: 10, romaji: true });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1240600]
+    );
+
+    // Prefix matching
+    result = await getWords('tabe', {
+      matchType: 'startsWith',
+      limit: 10,
+      romaji: true,
+    });
+    assert.deepEqual(
+      result.map((r) => [r.id, r.romajiMatch]),
+      [[1358280, 'たべ']]
+    );
+
+    // Names
+    const names = await getNames('shinjuku', { romaji: true });
+    assert.deepEqual(
+      names.map((name) => [name.id, name.romajiMatch]),
+      [[5001, 'しんじゅく']]
+    );
+  });
+
+  it('should fetch words by pattern', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":8,"format":"full"}
+{"r":["げつようび"],"s":[{"pos":["n","adv"],"g":["Monday"]}],"k":["月曜日"],"id":1255430,"km":[{"p":["i1","n1","nf05"]}],"rm":[{"p":["i1","n1","nf05"],"a":3}]}
+{"r":["にちようび"],"s":[{"pos":["n","adv"],"g":["Sunday"]}],"k":["日曜日"],"id":1461140,"km":[{"p":["i1","n1","nf07"]}],"rm":[{"p":["i1","n1","nf07"],"a":3}]}
+{"r":["まいにち"],"s":[{"pos":["n","adv"],"g":["every day"]}],"k":["毎日"],"id":1526080,"km":[{"p":["i1","n1","nf01"]}],"rm":[{"p":["i1","n1","nf01"],"a":1}]}
+{"r":["きょう"],"s":[{"pos":["n","adv"],"g":["today"]}],"k":["今日"],"id":1579110,"km":[{"p":["i1","n1","nf02"]}],"rm":[{"p":["i1","n1","nf02"],"a":1}]}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["たる"],"s":[{"pos":["v5r","vi"],"g":["to be sufficient"]}],"k":["足る"],"id":1404980,"rm":[{"a":0}]}
+{"r":["タオル"],"s":[{"pos":["n"],"g":["towel"]}],"id":1080610,"rm":[{"p":["g1"],"a":1}]}
+{"r":["しかる"],"s":[{"pos":["v5r","vt"],"g":["to scold"]}],"k":["叱る","𠮟る"],"id":1306460,"km":[{"p":["i1"]},{}],"rm":[{"p":["i1"],"a":0}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    // Single character wildcard
+    let result = await getWords('?日', { matchType: 'pattern', limit: 10 });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1526080, 1579110]
+    );
+    assert.nestedInclude(result[0], {
+      'k[0].match': true,
+      'k[0].matchRange[0]': 0,
+      'k[0].matchRange[1]': 2,
+    });
+
+    // Leading wildcard (the match range excludes the wildcard)
+    result = await getWords('*曜日', { matchType: 'pattern', limit: 10 });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1255430, 1461140]
+    );
+    for (const word of result) {
+      assert.deepEqual(word.k[0]!.matchRange, [1, 3]);
+    }
+
+    // Full-width wildcards
+    result = await getWords('＊曜日', { matchType: 'pattern', limit: 10 });
+    assert.lengthOf(result, 2);
+
+    // Kana patterns match both hiragana and katakana
+    result = await getWords('た?る', { matchType: 'pattern', limit: 10 });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1358280, 1080610]
+    );
+    const towel = result.find((r) => r.id === 1080610)!;
+    assert.nestedInclude(towel, {
+      'r[0].match': true,
+      'r[0].matchRange[0]': 0,
+      'r[0].matchRange[1]': 3,
+    });
+
+    // Match ranges are in code points, not UTF-16 code units
+    result = await getWords('?る', { matchType: 'pattern', limit: 10 });
+    const scold = result.find((r) => r.id === 1306460)!;
+    assert.deepEqual(scold.k[1]!.matchRange, [0, 2]);
+    result = await getWords('*る', { matchType: 'pattern', limit: 10 });
+    assert.deepEqual(
+      result.find((r) => r.id === 1306460)!.k[1]!.matchRange,
+      [1, 2]
+    );
+
+    // Ends with
+    result = await getWords('ようび', { matchType: 'endsWith', limit: 10 });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1255430, 1461140]
+    );
+    assert.deepEqual(result[0]!.r[0]!.matchRange, [2, 5]);
+    assert.isTrue(result[0]!.k[0]!.match);
+    assert.isUndefined(result[0]!.k[0]!.matchRange);
+
+    // Contains
+    result = await getWords('曜', { matchType: 'contains', limit: 10 });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1255430, 1461140]
+    );
+    assert.deepEqual(result[0]!.k[0]!.matchRange, [1, 2]);
+
+    result = await getWords('にち', { matchType: 'contains', limit: 10 });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1461140, 1526080]
+    );
+
+    // Limit
+    result = await getWords('*日', { matchType: 'pattern', limit: 1 });
+    assert.lengthOf(result, 1);
+
+    // Patterns that match everything are rejected
+    result = await getWords('*', { matchType: 'pattern', limit: 10 });
+    assert.lengthOf(result, 0);
+  });
+
+  it('should fetch words by pattern without the full-text database', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":3,"format":"full"}
+{"r":["げつようび"],"s":[{"pos":["n","adv"],"g":["Monday"]}],"k":["月曜日"],"id":1255430,"km":[{"p":["i1","n1","nf05"]}],"rm":[{"p":["i1","n1","nf05"],"a":3}]}
+{"r":["にちようび"],"s":[{"pos":["n","adv"],"g":["Sunday"]}],"k":["日曜日"],"id":1461140,"km":[{"p":["i1","n1","nf07"]}],"rm":[{"p":["i1","n1","nf07"],"a":3}]}
+{"r":["まいにち"],"s":[{"pos":["n","adv"],"g":["every day"]}],"k":["毎日"],"id":1526080,"km":[{"p":["i1","n1","nf01"]}],"rm":[{"p":["i1","n1","nf01"],"a":1}]}
+`
+    );
+
+    // Use a regular database so that the individual kanji index is empty
+    await db.destroy();
+    const plainDb = new JpdictIdb();
+
+    try {
+      await plainDb.update({ series: 'words', lang: 'en' });
+
+      // Patterns with no literal prefix or suffix
+      let result = await getWords('曜', { matchType: 'contains', limit: 10 });
+      assert.sameMembers(
+        result.map((r) => r.id),
+        [1255430, 1461140]
+      );
+
+      result = await getWords('*日*', { matchType: 'pattern', limit: 10 });
+      assert.sameMembers(
+        result.map((r) => r.id),
+        [1255430, 1461140, 1526080]
+      );
+
+      // Prefix matching on headwords made up of only kanji
+      result = await getWords('日?日', { matchType: 'pattern', limit: 10 });
+      assert.sameMembers(
+        result.map((r) => r.id),
+        [1461140]
+      );
+    } finally {
+      await plainDb.destroy();
+    }
+  });
+
+  it('should filter words', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":5,"format":"full"}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]},{"pos":["v1","vt"],"g":["to live on (e.g. a salary)"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["たる"],"s":[{"pos":["v5r","vi"],"g":["to be sufficient"]},{"pos":["v5r","vi"],"misc":["arch"],"g":["to be worth doing"]}],"k":["足る"],"id":1404980,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":0}]}
+{"r":["たんのう"],"s":[{"pos":["n"],"field":["anat"],"g":["gallbladder"]}],"k":["胆嚢"],"id":1417130,"rm":[{"a":0}]}
+{"r":["たいがい"],"s":[{"pos":["n","adj-no"],"field":["med"],"g":["extracorporeal"]}],"k":["体外"],"id":1408960,"km":[{"p":["n2","nf36"]}],"rm":[{"p":["n2","nf36"],"a":0}]}
+{"r":["たいがい"],"s":[{"pos":["adv"],"dial":["ksb"],"g":["really"]}],"id":2829120}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    // Part of speech, including prefix matching
+    let result = await getWords('た', {
+      matchType: 'startsWith',
+      limit: 10,
+      filter: { pos: ['v5*'] },
+    });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1404980]
+    );
+
+    // Senses that don't match are unmarked rather than dropped
+    result = await getWords('足る', {
+      limit: 10,
+      filter: { excludeMisc: ['arch', 'obs'] },
+    });
+    assert.lengthOf(result, 1);
+    assert.deepEqual(
+      result[0]!.s.map((s) => s.match),
+      [true, false]
+    );
+
+    // Field
+    result = await getWords('たいがい', {
+      limit: 10,
+      filter: { field: ['med'] },
+    });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1408960]
+    );
+
+    // Dialect
+    result = await getWords('たいがい', {
+      limit: 10,
+      filter: { dialect: ['ksb'] },
+    });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [2829120]
+    );
+
+    // Common words only
+    result = await getWords('た', {
+      matchType: 'startsWith',
+      limit: 10,
+      filter: { commonOnly: true },
+    });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1358280, 1404980]
+    );
+
+    // Pattern matching
+    result = await getWords('*る', {
+      matchType: 'pattern',
+      limit: 10,
+      filter: { pos: ['v1'] },
+    });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1358280]
+    );
+
+    // Kanji
+    result = await getWordsWithKanji('体', { filter: { pos: ['n'] } });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1408960]
+    );
+    result = await getWordsWithKanji('体', { filter: { pos: ['v*'] } });
+    assert.lengthOf(result, 0);
+
+    // Glosses
+    result = await getWordsWithGloss('sufficient', 'en', undefined, {
+      filter: { pos: ['vi'] },
+    });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1404980]
+    );
+    result = await getWordsWithGloss('sufficient', 'en', undefined, {
+      filter: { pos: ['vt'] },
+    });
+    assert.lengthOf(result, 0);
+  });
+
+  it('should filter gloss matches before limiting the candidates', async () => {
+    // Only every 20th word is a verb so most of the first 50 candidates are
+    // filtered out.
+    const records = Array.from({ length: 80 }, (_, i) =>
+      JSON.stringify({
+        r: ['てすと'],
+        s: [{ pos: [i % 20 === 0 ? 'v1' : 'n'], g: ['test'] }],
+        id: 1000 + i,
+      })
+    );
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":${
+        records.length
+      },"format":"full"}
+${records.join('\n')}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    const result = await getWordsWithGloss('test', 'en', 10, {
+      filter: { pos: ['v1'] },
+    });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1000, 1020, 1040, 1060]
+    );
+  });
+
+  it('should search by multiple kanji', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":5,"format":"full"}
+{"r":["せいかつ"],"s":[{"pos":["n","vs","vi"],"g":["life","living"]}],"k":["生活"],"id":1375610,"km":[{"p":["i1","n1","nf02"]}],"rm":[{"p":["i1","n1","nf02"],"a":0}]}
+{"r":["いきる"],"s":[{"pos":["v1","vi"],"g":["to live"]}],"k":["生きる","活きる"],"id":1374550,"km":[{"p":["i1"]},{"p":["i2"]}],"rm":[{"p":["i1"],"a":2}]}
+{"r":["かつどう"],"s":[{"pos":["n","vs","vi"],"g":["activity"]}],"k":["活動"],"id":1203020,"km":[{"p":["i1","n1","nf03"]}],"rm":[{"p":["i1","n1","nf03"],"a":0}]}
+{"r":["うんどう"],"s":[{"pos":["n","vs","vi"],"g":["exercise"]}],"k":["運動"],"id":1172960,"km":[{"p":["i1","n1","nf02"]}],"rm":[{"p":["i1","n1","nf02"],"a":0}]}
+{"r":["せいかつひ"],"s":[{"pos":["n"],"g":["living expenses"]}],"k":["生活費"],"id":1375630,"rm":[{"a":4}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    // All (the default)
+    let result = await getWordsWithKanji('生活');
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1375610, 1375630]
+    );
+    assert.deepEqual(result[0]!.k[0]!.matchRange, [0, 2]);
+
+    // Both kanji are in the entry but not in the same headword
+    result = await getWordsWithKanji('生活', { mode: 'all' });
+    assert.notInclude(
+      result.map((r) => r.id),
+      1374550
+    );
+
+    // Any
+    result = await getWordsWithKanji('生活', { mode: 'any' });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1375610, 1374550, 1203020, 1375630]
+    );
+    const ikiru = result.find((r) => r.id === 1374550)!;
+    assert.deepEqual(
+      ikiru.k.map((k) => [k.match, k.matchRange]),
+      [
+        [true, [0, 1]],
+        [true, [0, 1]],
+      ]
+    );
+
+    // Only from
+    result = await getWordsWithKanji('生活動', { mode: 'onlyFrom' });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1375610, 1374550, 1203020]
+    );
+
+    // Paging
+    const allResults = await getWordsWithKanji('生活動', { mode: 'any' });
+    assert.lengthOf(allResults, 5);
+    result = await getWordsWithKanji('生活動', {
+      mode: 'any',
+      offset: 1,
+      limit: 2,
+    });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      allResults.slice(1, 3).map((r) => r.id)
+    );
+    assert.strictEqual(allResults[4]!.id, 1375630);
+  });
+
+  it('should report the first run of matching kanji when searching by kanji', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":2,"format":"full"}
+{"r":["いきいき"],"s":[{"pos":["adv","adv-to","vs"],"g":["lively","vividly"]}],"k":["生き生き","活き活き"],"id":1374960,"km":[{"p":["i1","n1","nf14"]},{}],"rm":[{"p":["i1","n1","nf14"],"a":3}]}
+{"r":["せいかつ"],"s":[{"pos":["n","vs","vi"],"g":["life","living"]}],"k":["生活"],"id":1375610,"km":[{"p":["i1","n1","nf02"]}],"rm":[{"p":["i1","n1","nf02"],"a":0}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    // Repeated kanji
+    let result = await getWordsWithKanji('生', { mode: 'any' });
+    const ikiiki = result.find((r) => r.id === 1374960)!;
+    assert.deepEqual(
+      ikiiki.k.map((k) => [k.match, k.matchRange]),
+      [
+        [true, [0, 1]],
+        [false, undefined],
+      ]
+    );
+
+    // Adjacent matching kanji are covered by the same range
+    result = await getWordsWithKanji('生活', { mode: 'any' });
+    assert.deepEqual(
+      result.find((r) => r.id === 1375610)!.k[0]!.matchRange,
+      [0, 2]
+    );
+
+    result = await getWordsWithKanji('活生', { mode: 'onlyFrom' });
+    assert.deepEqual(
+      result.find((r) => r.id === 1374960)!.k.map((k) => k.matchRange),
+      [
+        [0, 1],
+        [0, 1],
+      ]
+    );
+  });
+
+  it('should iterate over words', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":5,"format":"full"}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["たる"],"s":[{"pos":["v5r","vi"],"g":["to be sufficient"]}],"k":["足る"],"id":1404980,"rm":[{"a":0}]}
+{"r":["たいがい"],"s":[{"pos":["n","adj-no"],"field":["med"],"g":["extracorporeal"]}],"k":["体外"],"id":1408960,"km":[{"p":["n2","nf36"]}],"rm":[{"p":["n2","nf36"],"a":0}]}
+{"r":["たんのう"],"s":[{"pos":["n"],"g":["gallbladder"]}],"k":["胆嚢"],"id":1417130,"rm":[{"a":0}]}
+{"r":["タオル"],"s":[{"pos":["n"],"g":["towel"]}],"id":1080610,"rm":[{"p":["g1"],"a":1}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    const expected = await getWords('た', {
+      matchType: 'startsWith',
+      limit: 10,
+    });
+    assert.lengthOf(expected, 5);
+
+    // Results are returned in index order
+    const all: Array<WordResultWithCursor> = [];
+    for await (const item of iterateWords('た', { matchType: 'startsWith' })) {
+      all.push(item);
+    }
+    assert.sameDeepMembers(
+      all.map(({ result }) => result),
+      expected
+    );
+    assert.deepEqual(
+      all.map(({ result }) => result.id),
+      [1408960, 1358280, 1404980, 1417130, 1080610]
+    );
+
+    // Fetch the results a page at a time, resuming from the last result of
+    // each page
+    const takePage = async (
+      size: number,
+      after?: WordCursor
+    ): Promise<Array<WordResultWithCursor>> => {
+      const page: Array<WordResultWithCursor> = [];
+      for await (const item of iterateWords('た', {
+        matchType: 'startsWith',
+        after,
+      })) {
+        page.push(item);
+        if (page.length >= size) {
+          break;
+        }
+      }
+      return page;
+    };
+
+    const page1 = await takePage(2);
+    assert.deepEqual(page1, all.slice(0, 2));
+    const page2 = await takePage(2, page1[1]!.cursor);
+    assert.deepEqual(page2, all.slice(2, 4));
+    const page3 = await takePage(2, page2[1]!.cursor);
+    assert.deepEqual(page3, all.slice(4));
+    assert.deepEqual(await takePage(2, page3[0]!.cursor), []);
+
+    // Options are passed through
+    const filtered: Array<number> = [];
+    for await (const { result } of iterateWords('た', {
+      matchType: 'startsWith',
+      filter: { pos: ['n'] },
+    })) {
+      filtered.push(result.id);
+    }
+    assert.sameMembers(filtered, [1408960, 1417130, 1080610]);
+  });
+
+  it('should fetch words by ID', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":2,"format":"full"}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]},{"pos":["v1","vt"],"g":["to live on (e.g. a salary)"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["タオル"],"s":[{"pos":["n"],"g":["towel"]}],"id":1080610,"rm":[{"p":["g1"],"a":1}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    const result = await getWordsByIds([1080610, 9999999, 1358280, 1080610]);
+    assert.deepEqual(
+      result.words.map((word) => word.id),
+      [1080610, 1358280]
+    );
+    assert.deepEqual(result.missing, [9999999]);
+
+    const expected: WordResult = {
+      id: 1358280,
+      k: [
+        { ent: '食べる', p: ['i1', 'n2', 'nf25'], match: true },
+        { ent: '喰べる', i: ['iK'], match: true },
+      ],
+      r: [{ ent: 'たべる', p: ['i1', 'n2', 'nf25'], a: 2, match: true }],
+      s: [
+        { g: [{ str: 'to eat' }], pos: ['v1', 'vt'], match: true },
+        {
+          g: [{ str: 'to live on (e.g. a salary)' }],
+          pos: ['v1', 'vt'],
+          match: true,
+        },
+      ],
+    };
+    assert.deepEqual(result.words[1], expected);
+
+    assert.deepEqual(await getWordById(1358280), expected);
+    assert.isNull(await getWordById(9999999));
+  });
+
+  it('should fetch words referencing a word', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":3,"format":"full"}
+{"r":["あがる"],"s":[{"pos":["v5r","vi"],"g":["to rise"],"ant":[{"k":"下がる"}]}],"k":["上がる"],"id":1352290,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":0}]}
+{"r":["さがる"],"s":[{"pos":["v5r","vi"],"g":["to come down"],"ant":[{"k":"上がる"}]},{"pos":["v5r","vi"],"g":["to hang"],"xref":[{"k":"下げる","r":"さげる","sense":2}]}],"k":["下がる"],"id":1188540,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":2}]}
+{"r":["さげる"],"s":[{"pos":["v1","vt"],"g":["to lower"]},{"pos":["v1","vt"],"g":["to hang"]}],"k":["下げる"],"id":1188560,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":2}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    // Antonyms
+    let result = await getWordsReferencing(1188540);
+    assert.deepEqual(
+      result.map((ref) => ref.word.id),
+      [1352290]
+    );
+    assert.deepEqual(result[0]!.references, [
+      { type: 'ant', sense: 0, ref: { k: '下がる' } },
+    ]);
+
+    // Cross-references with a target sense
+    result = await getWordsReferencing(1188560);
+    assert.deepEqual(
+      result.map((ref) => ref.word.id),
+      [1188540]
+    );
+    assert.deepEqual(result[0]!.references, [
+      {
+        type: 'xref',
+        sense: 1,
+        targetSense: 1,
+        ref: { k: '下げる', r: 'さげる', sense: 2 },
+      },
+    ]);
+    assert.deepEqual(
+      result[0]!.word.s.map((sense) => sense.match),
+      [false, true]
+    );
+
+    // Headword / reading targets
+    result = await getWordsReferencing({ r: 'さげる' });
+    assert.deepEqual(
+      result.map((ref) => ref.word.id),
+      [1188540]
+    );
+    result = await getWordsReferencing({ k: '下げる', r: 'さげる' });
+    assert.lengthOf(result, 1);
+    result = await getWordsReferencing({ k: '下げる', r: 'くだる' });
+    assert.lengthOf(result, 0);
+
+    // Unknown words
+    result = await getWordsReferencing(9999999);
+    assert.lengthOf(result, 0);
+  });
+
+  it('should fetch words by pitch accent', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":4,"format":"full"}
+{"r":["はし"],"s":[{"pos":["n"],"g":["chopsticks"]}],"k":["箸"],"id":1489420,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":1}]}
+{"r":["はし"],"s":[{"pos":["n"],"g":["bridge"]}],"k":["橋"],"id":1489350,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":2}]}
+{"r":["はし"],"s":[{"pos":["n"],"g":["edge"]}],"k":["端"],"id":1489380,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":0}]}
+{"r":["きょうしつ"],"s":[{"pos":["n"],"g":["classroom"]}],"k":["教室"],"id":1237190,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":[{"i":0},{"i":1,"pos":["n"]}]}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    // By pattern
+    let result = await getWordsWithPitchAccent('はし', 'heiban');
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1489380]
+    );
+    result = await getWordsWithPitchAccent('はし', 'odaka');
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1489350]
+    );
+    result = await getWordsWithPitchAccent('はし', 'nakadaka');
+    assert.lengthOf(result, 0);
+
+    // By accent position
+    result = await getWordsWithPitchAccent('はし', 1);
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1489420]
+    );
+
+    // Mora-level information
+    assert.deepEqual(getPitchAccents(result[0]!.r[0]!), [
+      {
+        accent: 1,
+        pattern: 'atamadaka',
+        morae: ['は', 'し'],
+        pitch: ['high', 'low'],
+        particlePitch: 'low',
+      },
+    ]);
+
+    result = await getWordsWithPitchAccent('きょうしつ', 'atamadaka');
+    assert.lengthOf(result, 1);
+    assert.deepEqual(getPitchAccents(result[0]!.r[0]!), [
+      {
+        accent: 0,
+        pattern: 'heiban',
+        morae: ['きょ', 'う', 'し', 'つ'],
+        pitch: ['low', 'high', 'high', 'high'],
+        particlePitch: 'high',
+      },
+      {
+        accent: 1,
+        pattern: 'atamadaka',
+        morae: ['きょ', 'う', 'し', 'つ'],
+        pitch: ['high', 'low', 'low', 'low'],
+        particlePitch: 'low',
+        pos: ['n'],
+      },
+    ]);
+  });
+
+  it('should fetch words by language source', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":4,"format":"full"}
+{"r":["アルバイト"],"s":[{"pos":["n","vs","vi"],"g":["part-time job"],"lsrc":[{"lang":"de","src":"Arbeit"}]}],"id":1015890,"rm":[{"p":["g1"],"a":3}]}
+{"r":["カルテ"],"s":[{"pos":["n"],"field":["med"],"g":["medical record"],"lsrc":[{"lang":"de","src":"Karte"}]}],"id":1038210,"rm":[{"a":1}]}
+{"r":["ナイター"],"s":[{"pos":["n"],"g":["game under lights"],"lsrc":[{"src":"nighter","wasei":true}]}],"id":1087770,"rm":[{"a":1}]}
+{"r":["パン"],"s":[{"pos":["n"],"g":["bread"],"lsrc":[{"lang":"pt","src":"pão"}]},{"pos":["n"],"g":["pan (e.g. camera)"]}],"id":1101610,"rm":[{"p":["g1"],"a":1}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    // By language
+    let result = await getWordsByLanguageSource({ lang: 'de' });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1015890, 1038210]
+    );
+
+    // By source term (ignoring case)
+    result = await getWordsByLanguageSource({ lang: 'de', src: 'arbeit' });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1015890]
+    );
+
+    // Wasei
+    result = await getWordsByLanguageSource({ lang: 'en', waseiOnly: true });
+    assert.deepEqual(
+      result.map((r) => r.id),
+      [1087770]
+    );
+
+    // Only matching senses are marked
+    result = await getWordsByLanguageSource({ lang: 'pt', src: 'pão' });
+    assert.deepEqual(
+      result.map((r) => r.s.map((s) => s.match)),
+      [[true, false]]
+    );
+
+    // Limit
+    result = await getWordsByLanguageSource({ lang: 'de', limit: 1 });
+    assert.lengthOf(result, 1);
+  });
+
+  it('should align furigana', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:kanji/en/5.0.0.jsonl',
+      `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":4,"format":"full"}
+{"c":"食","r":{"on":["ショク","ジキ"],"kun":["く.う","く.らう","た.べる","は.む"]},"m":["eat","food"],"rad":{"x":184},"refs":{},"misc":{"sc":9,"gr":2}}
+{"c":"学","r":{"on":["ガク"],"kun":["まな.ぶ"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":8,"gr":1}}
+{"c":"校","r":{"on":["コウ","キョウ"]},"m":["school"],"rad":{"x":75},"refs":{},"misc":{"sc":10,"gr":1}}
+{"c":"人","r":{"on":["ジン","ニン"],"kun":["ひと","-り","-と"]},"m":["person"],"rad":{"x":9},"refs":{},"misc":{"sc":2,"gr":1}}
+`
+    );
+    fetchMock.route(
+      'end:radicals/en/4.0.0.jsonl',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":1,"format":"full"}
+{"id":"009","r":9,"b":"⼈","k":"人","s":2,"na":["ひと"],"m":["person"]}
+`
+    );
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":5,"format":"full"}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["がっこう"],"s":[{"pos":["n"],"g":["school"]}],"k":["学校"],"id":1206600,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":0}]}
+{"r":["ひとびと"],"s":[{"pos":["n"],"g":["people"]}],"k":["人々","人びと"],"id":1500490,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":2}]}
+{"r":["おとな"],"s":[{"pos":["n"],"g":["adult"]}],"k":["大人"],"id":1414260,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":0}]}
+{"r":["とりあつかい"],"s":[{"pos":["n"],"g":["treatment"]}],"k":["取り扱い"],"id":1326980,"km":[{"p":["i1"]}],"rm":[{"p":["i1"],"a":0}]}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+    await db.update({ series: 'words', lang: 'en' });
+
+    const [taberu, gakkou, hitobito, otona, toriatsukai] = await getWordsByIds([
+      1358280, 1206600, 1500490, 1414260, 1326980,
+    ]).then((result) => result.words);
+
+    // Using readings from the kanji table
+    assert.deepEqual(await getFurigana(taberu!, 0, 0), [
+      { text: '食', ruby: 'た' },
+      { text: 'べる' },
+    ]);
+
+    // Sound changes
+    assert.deepEqual(await getFurigana(gakkou!, 0, 0), [
+      { text: '学', ruby: 'がっ' },
+      { text: '校', ruby: 'こう' },
+    ]);
+    assert.deepEqual(await getFurigana(hitobito!, 0, 0), [
+      { text: '人', ruby: 'ひと' },
+      { text: '々', ruby: 'びと' },
+    ]);
+    assert.deepEqual(await getFurigana(hitobito!, 1, 0), [
+      { text: '人', ruby: 'ひと' },
+      { text: 'びと' },
+    ]);
+
+    // Kanji without readings in the kanji table
+    assert.deepEqual(await getFurigana(otona!, 0, 0), [
+      { text: '大人', ruby: 'おとな' },
+    ]);
+    assert.deepEqual(await getFurigana(toriatsukai!, 0, 0), [
+      { text: '取', ruby: 'と' },
+      { text: 'り' },
+      { text: '扱', ruby: 'あつか' },
+      { text: 'い' },
+    ]);
+
+    // Invalid indices
+    try {
+      await getFurigana(taberu!, 2, 0);
+      assert.fail('Should have thrown an exception');
+    } catch (e) {
+      assert.match((e as Error).message, /Invalid headword or reading index/);
+    }
+  });
+
+  it('should fetch random words', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:words/en/2.0.0.jsonl',
+      `{"type":"header","version":{"major":2,"minor":0,"patch":0,"databaseVersion":"n/a","dateOfCreation":"2020-08-22"},"records":5,"format":"full"}
+{"r":["たべる"],"s":[{"pos":["v1","vt"],"g":["to eat"]}],"k":["食べる","喰べる"],"id":1358280,"km":[{"p":["i1","n2","nf25"]},{"i":["iK"]}],"rm":[{"p":["i1","n2","nf25"],"a":2}]}
+{"r":["たる"],"s":[{"pos":["v5r","vi"],"g":["to be sufficient"]}],"k":["足る"],"id":1404980,"rm":[{"a":0}]}
+{"r":["たいがい"],"s":[{"pos":["n","adj-no"],"field":["med"],"g":["extracorporeal"]}],"k":["体外"],"id":1408960,"km":[{"p":["n2","nf36"]}],"rm":[{"p":["n2","nf36"],"a":0}]}
+{"r":["たんのう"],"s":[{"pos":["n"],"g":["gallbladder"]}],"k":["胆嚢"],"id":1417130,"rm":[{"a":0}]}
+{"r":["タオル"],"s":[{"pos":["n"],"g":["towel"]}],"id":1080610,"rm":[{"p":["g1"],"a":1}]}
+`
+    );
+
+    await db.update({ series: 'words', lang: 'en' });
+
+    let result = await getRandomWords({ count: 3, seed: 1234 });
+    assert.lengthOf(result, 3);
+    assert.lengthOf(new Set(result.map((r) => r.id)), 3);
+
+    // Using the same seed should produce the same result
+    const again = await getRandomWords({ count: 3, seed: 1234 });
+    assert.deepEqual(
+      again.map((r) => r.id),
+      result.map((r) => r.id)
+    );
+
+    // Filtering
+    result = await getRandomWords({ count: 5, seed: 1, commonOnly: true });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1358280, 1080610]
+    );
+    result = await getRandomWords({ count: 5, seed: 1, pos: ['v*'] });
+    assert.sameMembers(
+      result.map((r) => r.id),
+      [1358280, 1404980]
+    );
+  });
+
+  it('should fetch random kanji', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:kanji/en/5.0.0.jsonl',
+      `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":4,"format":"full"}
+{"c":"食","r":{"on":["ショク","ジキ"],"kun":["く.う","た.べる"]},"m":["eat","food"],"rad":{"x":184},"refs":{},"misc":{"sc":9,"gr":2,"jlptn":5}}
+{"c":"学","r":{"on":["ガク"],"kun":["まな.ぶ"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":8,"gr":1,"jlptn":5}}
+{"c":"校","r":{"on":["コウ","キョウ"]},"m":["school"],"rad":{"x":75},"refs":{},"misc":{"sc":10,"gr":1,"jlptn":5}}
+{"c":"胆","r":{"on":["タン"]},"m":["gall bladder"],"rad":{"x":130},"refs":{},"misc":{"sc":9,"gr":8,"jlptn":1}}
+`
+    );
+    fetchMock.route(
+      'end:radicals/en/4.0.0.jsonl',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":1,"format":"full"}
+{"id":"009","r":9,"b":"⼈","k":"人","s":2,"na":["ひと"],"m":["person"]}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    let result = await getRandomKanji({ count: 2, seed: 99, lang: 'en' });
+    assert.lengthOf(result, 2);
+    const again = await getRandomKanji({ count: 2, seed: 99, lang: 'en' });
+    assert.deepEqual(
+      again.map((k) => k.c),
+      result.map((k) => k.c)
+    );
+
+    result = await getRandomKanji({ count: 10, jlpt: 5, lang: 'en' });
+    assert.sameMembers(
+      result.map((k) => k.c),
+      ['食', '学', '校']
+    );
+
+    result = await getRandomKanji({ count: 10, jlpt: 5, grade: 1, lang: 'en' });
+    assert.sameMembers(
+      result.map((k) => k.c),
+      ['学', '校']
+    );
+  });
+
+  it('should fetch kanji variants and similar kanji', async () => {
+    fetchMock.route('end:version-en.json', VERSION_INFO);
+    fetchMock.route(
+      'end:kanji/en/5.0.0.jsonl',
+      `{"type":"header","version":{"major":5,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":6,"format":"full"}
+{"c":"学","r":{"on":["ガク"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":8,"gr":1,"freq":63},"comp":"⺍⼍⼦","var":"學"}
+{"c":"學","r":{"on":["ガク"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":16},"comp":"⾅⼍⼦"}
+{"c":"斈","r":{"on":["ガク"]},"m":["study","learning"],"rad":{"x":39},"refs":{},"misc":{"sc":7},"comp":"⽂⼦","var":"学"}
+{"c":"字","r":{"on":["ジ"]},"m":["character","letter","word"],"rad":{"x":39},"refs":{},"misc":{"sc":6,"gr":1,"freq":485},"comp":"⼧⼦"}
+{"c":"覚","r":{"on":["カク"]},"m":["memorize","learn"],"rad":{"x":147},"refs":{},"misc":{"sc":12,"gr":4,"freq":406},"comp":"⺍⼍⾒"}
+{"c":"食","r":{"on":["ショク"]},"m":["eat","food"],"rad":{"x":184},"refs":{},"misc":{"sc":9,"gr":2}}
+`
+    );
+    fetchMock.route(
+      'end:radicals/en/4.0.0.jsonl',
+      `{"type":"header","version":{"major":4,"minor":0,"patch":0,"dateOfCreation":"2019-09-06"},"records":1,"format":"full"}
+{"id":"009","r":9,"b":"⼈","k":"人","s":2,"na":["ひと"],"m":["person"]}
+`
+    );
+
+    await db.update({ series: 'kanji', lang: 'en' });
+
+    // Variants in both directions
+    let variants = await getKanjiVariants('学', 'en');
+    assert.sameDeepMembers(
+      variants.map(({ c, source }) => ({ c, source })),
+      [
+        { c: '學', source: 'listed' },
+        { c: '斈', source: 'reverse' },
+      ]
+    );
+    assert.deepEqual(variants[0]!.m, ['study', 'learning']);
+    assert.strictEqual(variants[0]!.m_lang, 'en');
+
+    variants = await getKanjiVariants('學', 'en');
+    assert.deepEqual(
+      variants.map(({ c, source }) => ({ c, source })),
+      [{ c: '学', source: 'reverse' }]
+    );
+
+    assert.deepEqual(await getKanjiVariants('食', 'en'), []);
+    assert.deepEqual(await getKanjiVariants('日', 'en'), []);
+
+    // Similar kanji
+    const similar = await getVisuallySimilarKanji('学', 'en');
+    assert.deepEqual(
+      similar.map(({ c }) => c),
+      ['覚', '學', '斈', '字']
+    );
+    for (let i = 1; i < similar.length; i++) {
+      assert.isAtMost(similar[i]!.score, similar[i - 1]!.score);
+    }
+    assert.isAbove(similar[0]!.score, 0);
+    assert.isAtMost(similar[0]!.score, 1);
+
+    assert.lengthOf(await getVisuallySimilarKanji('学', 'en', 2), 2);
+    assert.deepEqual(await getVisuallySimilarKanji('食', 'en'), []);
+  });
 });
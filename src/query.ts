@@ -5,9 +5,18 @@ import {
   type RootComponent,
 } from '@birchill/kanji-component-string-utils';
 import { kanaToHiragana } from '@birchill/normal-jp';
-import type { IDBPDatabase, IDBPTransaction, StoreNames } from 'idb';
+import type {
+  IDBPDatabase,
+  IDBPObjectStore,
+  IDBPTransaction,
+  StoreNames,
+} from 'idb';
 import { openDB } from 'idb';
 
+import type { CandidateWord } from './deinflect.js';
+import { deinflect, getWordTypeForPartOfSpeech } from './deinflect.js';
+import type { FuriganaSegment } from './furigana.js';
+import { alignFurigana, normalizeKanjiReadings } from './furigana.js';
 import type { JpdictSchema } from './store.js';
 import type {
   KanjiStoreRecord,
@@ -15,18 +24,45 @@ import type {
   RadicalStoreRecord,
   WordStoreRecord,
 } from './store-types.js';
+import { toLanguageSourceKey } from './store-types.js';
+import { hasHiragana, hiraganaToKatakana, isKanji } from './japanese.js';
+import {
+  getLiteralPrefix,
+  getLiteralSuffix,
+  getMinimumLength,
+  normalizePattern,
+  patternToRegExp,
+} from './pattern.js';
+import type { AccentPattern } from './pitch-accent.js';
+import { getPitchAccents } from './pitch-accent.js';
+import { getRandomGenerator, sample } from './random.js';
+import { isRomaji, romajiToKana } from './romaji.js';
 import { getTokens } from './tokenizer.js';
 import { stripFields } from './utils.js';
 import type { MatchMode } from './to-word-result.js';
-import { toWordResult, toWordResultFromGlossLookup } from './to-word-result.js';
+import {
+  toWordResult,
+  toWordResultFromGlossLookup,
+  toWordResultFromIdLookup,
+} from './to-word-result.js';
+import type { WordFilter } from './word-filter.js';
+import { applyWordFilter } from './word-filter.js';
 import { getPriority, sortWordResults } from './word-result-sorting.js';
-import type { CrossReference } from './words.js';
+import type { NameType } from './names.js';
+import type { CrossReference, LangSource } from './words.js';
 import type {
+  ExtendedKanaEntry,
   KanjiComponentInfo,
+  KanjiComponentSearchResult,
   KanjiResult,
+  KanjiVariant,
   NameResult,
   RelatedKanji,
+  ScanTextResult,
+  SimilarKanji,
+  WordReferenceResult,
   WordResult,
+  WordsByIdsResult,
 } from './result-types.js';
 
 // Database query methods
@@ -61,7 +97,7 @@ function open(): Promise<IDBPDatabase<JpdictSchema> | null> {
 
   _state = 'opening';
 
-  _openPromise = openDB<JpdictSchema>('jpdict', 4, {
+  _openPromise = openDB<JpdictSchema>('jpdict', 5, {
     upgrade(
       _db: IDBPDatabase<JpdictSchema>,
       _oldVersion: number,
@@ -116,9 +152,23 @@ function open(): Promise<IDBPDatabase<JpdictSchema> | null> {
 
 export type MatchType = 'exact' | 'startsWith';
 
+// Word searches additionally support suffix, substring, and pattern matching.
+//
+// `endsWith` and `contains` are shorthand for the patterns `*term` and
+// `*term*` respectively.
+//
+// For `pattern` matching, `?` matches any single character and `*` matches
+// any run of characters (including none), e.g. `?日`, `*曜日` or `た?る`.
+export type WordMatchType = MatchType | 'endsWith' | 'contains' | 'pattern';
+
 export async function getWords(
   search: string,
-  options?: { matchType?: MatchType; limit: number }
+  options?: {
+    matchType?: WordMatchType;
+    limit: number;
+    romaji?: boolean;
+    filter?: WordFilter;
+  }
 ): Promise<Array<WordResult>> {
   const db = await open();
   if (!db) {
@@ -129,22 +179,159 @@ export async function getWords(
   const matchType = options?.matchType ?? 'exact';
   const limit = options?.limit ?? Infinity;
 
-  // Normalize search string
-  const lookup = search.normalize();
+  const { lookups, searchLength } = await getWordLookups(db, search, {
+    matchType,
+    romaji: !!options?.romaji,
+  });
 
-  // Set up our output value.
-  const addedRecords: Set<number> = new Set();
   const results: Array<WordResult> = [];
+  for (let i = 0; i < lookups.length; i++) {
+    const { results: lookupResults } = await readWordLookup({
+      db,
+      lookups,
+      lookupIndex: i,
+      filter: options?.filter,
+      limit: Infinity,
+    });
+    results.push(...lookupResults.map(({ result }) => result));
+  }
 
-  const maybeAddRecord = (
-    record: WordStoreRecord,
-    term: string,
-    kanaMatching: 'exact' | 'kana-equivalent' = 'exact'
-  ) => {
-    if (addedRecords.has(record.id)) {
-      return;
+  // Sort using the following arrangement:
+  //
+  // A) For exact searching, sorting by priority is enough.
+  //
+  // B) For prefix ("starts with") and pattern searching, we want to make sure
+  //    exact matches sort first so we penalize matches where the matched
+  //    string is longer than the search term.
+  //
+  const sortedResult =
+    matchType === 'exact'
+      ? sortWordResults(results)
+      : sortWordResults(results, { searchLength });
+
+  if (limit) {
+    sortedResult.splice(limit);
+  }
+
+  return sortedResult;
+}
+
+// A position in the results of `iterateWords` that can be passed as the
+// `after` option to resume iteration after that point.
+export type WordCursor = {
+  // The index of the lookup (e.g. the kanji index lookup or the reading index
+  // lookup) that produced the result
+  lookup: number;
+  // The index key the result was found under
+  key: string | number;
+  // The ID of the result
+  id: number;
+};
+
+export type WordResultWithCursor = { result: WordResult; cursor: WordCursor };
+
+// The number of results to read at a time when iterating over results
+const ITERATE_BATCH_SIZE = 50;
+
+// Returns the same results as `getWords` one at a time, reading them from the
+// database as they are requested, so that callers can fetch them a page at a
+// time (e.g. for infinite scrolling).
+//
+// In order to avoid reading all the results up front, the results are returned
+// in index order (i.e. the order of the matched headwords) rather than sorted
+// by priority.
+//
+// Each result is accompanied by a cursor that can be passed as the `after`
+// option along with the same `search` and options to resume iteration after
+// that result.
+export async function* iterateWords(
+  search: string,
+  options?: {
+    matchType?: WordMatchType;
+    romaji?: boolean;
+    filter?: WordFilter;
+    after?: WordCursor;
+  }
+): AsyncGenerator<WordResultWithCursor, void, undefined> {
+  const db = await open();
+  if (!db) {
+    return;
+  }
+
+  const { lookups } = await getWordLookups(db, search, {
+    matchType: options?.matchType ?? 'exact',
+    romaji: !!options?.romaji,
+  });
+
+  let after = options?.after;
+  for (let i = after?.lookup ?? 0; i < lookups.length; i++) {
+    let done = false;
+    while (!done) {
+      // We read in batches using a separate transaction for each batch since
+      // the transaction will be committed while the caller is not reading.
+      const batch = await readWordLookup({
+        db,
+        lookups,
+        lookupIndex: i,
+        filter: options?.filter,
+        after: after && after.lookup === i ? after : undefined,
+        limit: ITERATE_BATCH_SIZE,
+      });
+
+      yield* batch.results;
+
+      done = batch.done;
+      if (batch.results.length) {
+        after = batch.results[batch.results.length - 1]!.cursor;
+      }
     }
+  }
+}
+
+type WordLookup = {
+  // The index to look up or undefined to scan the whole table
+  index?: 'k' | 'r' | 'h' | 'hr' | 'kc';
+  range?: IDBKeyRange;
+  // Returns the key under which this lookup matches `record` or undefined if
+  // it doesn't match.
+  //
+  // Since a record can appear under several keys in a multi-entry index, this
+  // should return the first such key so that we only return the record once.
+  getKey: (record: WordStoreRecord) => string | number | undefined;
+  toResult: (record: WordStoreRecord) => WordResult;
+};
+
+// Returns the lookups to perform for a word search, in order, along with the
+// length of the search term to use for sorting the results.
+//
+// Each record is returned by the first lookup that matches it.
+async function getWordLookups(
+  db: IDBPDatabase<JpdictSchema>,
+  search: string,
+  { matchType, romaji }: { matchType: WordMatchType; romaji: boolean }
+): Promise<{ lookups: Array<WordLookup>; searchLength: number }> {
+  // Normalize search string
+  const lookup = search.normalize();
+
+  // Convert romaji input to kana candidates, if requested
+  const romajiCandidates =
+    romaji && isRomaji(lookup) ? romajiToKana(lookup) : undefined;
+
+  if (matchType !== 'exact' && matchType !== 'startsWith') {
+    return getPatternLookups(db, romajiCandidates || [lookup], {
+      matchType,
+      romaji: !!romajiCandidates,
+    });
+  }
 
+  // (We explicitly use IDBKeyRange.only because otherwise the idb TS typings
+  // fail to recognize that these indices are multi-entry and hence it is
+  // valid to supply a single string instead of an array of strings.)
+  const getIndexLookup = (
+    index: 'k' | 'r' | 'h',
+    term: string,
+    kanaMatching: 'exact' | 'kana-equivalent'
+  ): WordLookup => {
     let matchMode: MatchMode;
     if (matchType === 'exact') {
       matchMode = kanaMatching === 'exact' ? 'lexeme' : 'kana-equivalent';
@@ -154,57 +341,292 @@ export async function getWords(
           ? 'starts-with'
           : 'starts-with-kana-equivalent';
     }
-    results.push(toWordResult(record, term, matchMode));
-    addedRecords.add(record.id);
+
+    return {
+      index,
+      range:
+        matchType === 'exact'
+          ? IDBKeyRange.only(term)
+          : IDBKeyRange.bound(term, term + '\uFFFF'),
+      getKey: (record) =>
+        getFirstKey(record[index] || [], (key) =>
+          matchType === 'exact' ? key === term : key.startsWith(term)
+        ),
+      toResult: (record) => {
+        const result = toWordResult(record, term, matchMode);
+        if (romajiCandidates) {
+          result.romajiMatch = term;
+        }
+        return result;
+      },
+    };
   };
 
-  // Try the k (kanji) index first
-  const kanjiIndex = db!.transaction('words').store.index('k');
-  // (We explicitly use IDBKeyRange.only because otherwise the idb TS typings
-  // fail to recognize that these indices are multi-entry and hence it is
-  // valid to supply a single string instead of an array of strings.)
-  const key =
-    matchType === 'exact'
-      ? IDBKeyRange.only(lookup)
-      : IDBKeyRange.bound(lookup, lookup + '\uFFFF');
-  for await (const cursor of kanjiIndex.iterate(key)) {
-    maybeAddRecord(cursor.value, lookup);
+  // For romaji we only need to look up each of the kana candidates in the
+  // hiragana index.
+  if (romajiCandidates) {
+    return {
+      lookups: romajiCandidates.map((hiragana) =>
+        getIndexLookup('h', hiragana, 'kana-equivalent')
+      ),
+      searchLength: Math.min(...romajiCandidates.map((kana) => kana.length)),
+    };
   }
 
-  // Then the r (reading) index
-  const readingIndex = db!.transaction('words').store.index('r');
-  for await (const cursor of readingIndex.iterate(key)) {
-    maybeAddRecord(cursor.value, lookup);
-  }
+  // Otherwise, try the k (kanji) index first, then the r (reading) index, and
+  // then finally try converting to hiragana and using the hiragana index.
+  return {
+    lookups: [
+      getIndexLookup('k', lookup, 'exact'),
+      getIndexLookup('r', lookup, 'exact'),
+      getIndexLookup('h', kanaToHiragana(lookup), 'kana-equivalent'),
+    ],
+    searchLength: lookup.length,
+  };
+}
 
-  // Then finally try converting to hiragana and using the hiragana index
+async function getPatternLookups(
+  db: IDBPDatabase<JpdictSchema>,
+  terms: Array<string>,
   {
-    const hiraganaIndex = db!.transaction('words').store.index('h');
-    const hiragana = kanaToHiragana(lookup);
-    const hiraganaKey =
-      matchType === 'exact'
-        ? IDBKeyRange.only(hiragana)
-        : IDBKeyRange.bound(hiragana, hiragana + '\uFFFF');
-    for await (const cursor of hiraganaIndex.iterate(hiraganaKey)) {
-      maybeAddRecord(cursor.value, hiragana, 'kana-equivalent');
+    matchType,
+    romaji,
+  }: { matchType: 'endsWith' | 'contains' | 'pattern'; romaji: boolean }
+): Promise<{ lookups: Array<WordLookup>; searchLength: number }> {
+  const lookups: Array<WordLookup> = [];
+  let searchLength = Infinity;
+
+  // The individual kanji index is only populated when using the full-text
+  // database so check if it is available before using it.
+  let hasKanjiIndex: boolean | undefined;
+
+  for (const term of terms) {
+    // Patterns are matched against the hiragana-converted headwords
+    const pattern = normalizePattern(
+      kanaToHiragana(
+        matchType === 'endsWith'
+          ? `*${term}`
+          : matchType === 'contains'
+            ? `*${term}*`
+            : term
+      )
+    );
+
+    // Don't allow patterns that match everything
+    if (pattern === '*' || !pattern.length) {
+      continue;
+    }
+
+    searchLength = Math.min(searchLength, getMinimumLength(pattern));
+
+    const regex = patternToRegExp(pattern);
+    const matchesPattern = (record: WordStoreRecord) =>
+      [...(record.k || []), ...record.r].some((headword) =>
+        regex.test(kanaToHiragana(headword))
+      );
+    const toResult = (record: WordStoreRecord) => {
+      const result = toWordResult(record, pattern, 'pattern');
+      if (romaji) {
+        result.romajiMatch = term;
+      }
+      return result;
+    };
+
+    const getIndexLookup = (
+      index: 'k' | 'h' | 'hr' | 'kc',
+      range: IDBKeyRange,
+      isMatchingKey: (key: string) => boolean
+    ): WordLookup => ({
+      index,
+      range,
+      getKey: (record) =>
+        matchesPattern(record)
+          ? getFirstKey(record[index] || [], isMatchingKey)
+          : undefined,
+      toResult,
+    });
+
+    // Find the narrowest set of candidate records we can:
+    //
+    // - If the pattern begins with some literal characters, do a prefix search
+    //   on the h index.
+    //
+    //   The h index only includes headwords with hiragana in them, however, so
+    //   if the prefix has no hiragana, we also need to search the k index
+    //   (for headwords made up of only kanji).
+    //
+    // - If it ends with literal characters, do a prefix search on the reversed
+    //   headwords.
+    //
+    // - If it contains a kanji, look up the individual kanji index (if it is
+    //   available).
+    //
+    // - Otherwise, fall back to scanning the whole table.
+    const prefix = getLiteralPrefix(pattern);
+    const suffix = getLiteralSuffix(pattern);
+    const kanji = [...pattern].find((c) => isKanji(c));
+    if (kanji && !prefix && !suffix && typeof hasKanjiIndex === 'undefined') {
+      hasKanjiIndex = !!(await db
+        .transaction('words')
+        .store.index('kc')
+        .openKeyCursor());
+    }
+
+    if (prefix) {
+      const range = IDBKeyRange.bound(prefix, prefix + '\uFFFF');
+      const isMatchingKey = (key: string) => key.startsWith(prefix);
+      if (!hasHiragana(prefix)) {
+        lookups.push(getIndexLookup('k', range, isMatchingKey));
+      }
+      lookups.push(getIndexLookup('h', range, isMatchingKey));
+    } else if (suffix) {
+      const reversed = [...suffix].reverse().join('');
+      lookups.push(
+        getIndexLookup(
+          'hr',
+          IDBKeyRange.bound(reversed, reversed + '\uFFFF'),
+          (key) => key.startsWith(reversed)
+        )
+      );
+    } else if (kanji && hasKanjiIndex) {
+      lookups.push(
+        getIndexLookup('kc', IDBKeyRange.only(kanji), (key) => key === kanji)
+      );
+    } else {
+      lookups.push({
+        getKey: (record) => (matchesPattern(record) ? record.id : undefined),
+        toResult,
+      });
     }
   }
 
-  // Sort using the following arrangement:
-  //
-  // A) For exact searching, sorting by priority is enough.
-  //
-  // B) For prefix ("starts with") searching, we want to make sure exact
-  //    matches sort first so we penalize matches where the matched string
-  //    is longer than the search term.
-  //
-  let sortedResult: Array<WordResult>;
-  if (matchType === 'exact') {
-    sortedResult = sortWordResults(results);
-  } else {
-    sortedResult = sortWordResults(results, { searchLength: lookup.length });
+  return { lookups, searchLength };
+}
+
+// Returns the first (i.e. lowest) key in `keys` that matches `isMatchingKey`.
+function getFirstKey(
+  keys: Array<string>,
+  isMatchingKey: (key: string) => boolean
+): string | undefined {
+  let result: string | undefined;
+  for (const key of keys) {
+    if (isMatchingKey(key) && (typeof result === 'undefined' || key < result)) {
+      result = key;
+    }
+  }
+  return result;
+}
+
+// Reads up to `limit` results from `lookups[lookupIndex]` starting after
+// `after`, if set.
+async function readWordLookup({
+  db,
+  lookups,
+  lookupIndex,
+  filter,
+  after,
+  limit,
+}: {
+  db: IDBPDatabase<JpdictSchema>;
+  lookups: Array<WordLookup>;
+  lookupIndex: number;
+  filter?: WordFilter;
+  after?: WordCursor;
+  limit: number;
+}): Promise<{ results: Array<WordResultWithCursor>; done: boolean }> {
+  const lookup = lookups[lookupIndex]!;
+  const previousLookups = lookups.slice(0, lookupIndex);
+
+  // When resuming, start from the key of the last result (and skip over any
+  // records with that key that we have already read below).
+  let range = lookup.range;
+  if (after) {
+    range = range
+      ? IDBKeyRange.bound(after.key, range.upper, false, range.upperOpen)
+      : IDBKeyRange.lowerBound(after.key);
+  }
+
+  const store = db.transaction('words').store;
+  let cursor = lookup.index
+    ? await store.index(lookup.index).openCursor(range)
+    : await store.openCursor(range);
+
+  const results: Array<WordResultWithCursor> = [];
+  while (cursor) {
+    const record = cursor.value;
+    const key = cursor.key as string | number;
+
+    if (
+      (!after || key !== after.key || record.id > after.id) &&
+      lookup.getKey(record) === key &&
+      previousLookups.every(
+        (previousLookup) => typeof previousLookup.getKey(record) === 'undefined'
+      )
+    ) {
+      const result = lookup.toResult(record);
+      if (!filter || applyWordFilter(result, filter)) {
+        results.push({
+          result,
+          cursor: { lookup: lookupIndex, key, id: record.id },
+        });
+        if (results.length >= limit) {
+          return { results, done: false };
+        }
+      }
+    }
+
+    cursor = await cursor.continue();
+  }
+
+  return { results, done: true };
+}
+
+// Looks up words with the reading `reading` that have the given pitch accent.
+//
+// `accent` may be an accent pattern (e.g. 'heiban') or the mora after which the
+// drop in pitch occurs.
+export async function getWordsWithPitchAccent(
+  reading: string,
+  accent: AccentPattern | number,
+  options?: { limit?: number }
+): Promise<Array<WordResult>> {
+  const limit = options?.limit ?? Infinity;
+
+  const hasAccent = (r: ExtendedKanaEntry): boolean =>
+    getPitchAccents(r).some((info) =>
+      typeof accent === 'number'
+        ? info.accent === accent
+        : info.pattern === accent
+    );
+
+  const results = (await getWords(reading, { limit: Infinity })).filter(
+    (result) => result.r.some((r) => r.matchRange && hasAccent(r))
+  );
+
+  return results.slice(0, limit);
+}
+
+// Looks up `search` as-is and, additionally, any dictionary forms that it
+// might be an inflection of (e.g. 食べられなかった → 食べる).
+//
+// Results found by deinflecting have their `reasonChains` member set.
+export async function getWordsDeinflected(
+  search: string,
+  options?: { limit?: number }
+): Promise<Array<WordResult>> {
+  const limit = options?.limit ?? Infinity;
+
+  const db = await open();
+  if (!db) {
+    return [];
   }
 
+  const results = await getWordsForCandidates(
+    db!.transaction('words').store,
+    deinflect(search.normalize())
+  );
+
+  const sortedResult = sortWordResults(results);
   if (limit) {
     sortedResult.splice(limit);
   }
@@ -212,6 +634,282 @@ export async function getWords(
   return sortedResult;
 }
 
+type WordsStore = IDBPObjectStore<
+  JpdictSchema,
+  ArrayLike<StoreNames<JpdictSchema>>,
+  'words'
+>;
+
+// Looks up each of `candidates` in `store`, returning the words whose
+// part-of-speech agrees with the candidate they were found by.
+async function getWordsForCandidates(
+  store: WordsStore,
+  candidates: Array<CandidateWord>
+): Promise<Array<WordResult>> {
+  const addedRecords: Set<number> = new Set();
+  const words: Array<WordResult> = [];
+
+  for (const candidate of candidates) {
+    const lookups: Array<[WordStoreRecord, MatchMode, string]> = [];
+    for (const record of await store
+      .index('k')
+      .getAll(IDBKeyRange.only(candidate.word))) {
+      lookups.push([record, 'lexeme', candidate.word]);
+    }
+    for (const record of await store
+      .index('r')
+      .getAll(IDBKeyRange.only(candidate.word))) {
+      lookups.push([record, 'lexeme', candidate.word]);
+    }
+    const hiragana = kanaToHiragana(candidate.word);
+    for (const record of await store
+      .index('h')
+      .getAll(IDBKeyRange.only(hiragana))) {
+      lookups.push([record, 'kana-equivalent', hiragana]);
+    }
+
+    for (const [record, matchMode, term] of lookups) {
+      if (addedRecords.has(record.id)) {
+        continue;
+      }
+
+      const result = toWordResult(record, term, matchMode);
+      if (applyDeinflection(result, candidate)) {
+        words.push(result);
+        addedRecords.add(record.id);
+      }
+    }
+  }
+
+  return words;
+}
+
+// Checks that the part-of-speech of `result` agrees with the type of word we
+// deinflected to, unmarking any senses that don't match, and sets the
+// `reasonChains` member of `result`.
+//
+// Returns false if no senses match.
+function applyDeinflection(
+  result: WordResult,
+  candidate: CandidateWord
+): boolean {
+  // Nothing to do if this is the original search string
+  if (!candidate.reasonChains.length) {
+    return true;
+  }
+
+  let hasMatchingSense = false;
+  for (const sense of result.s) {
+    sense.match =
+      sense.match &&
+      (sense.pos || []).some(
+        (pos) => getWordTypeForPartOfSpeech(pos) & candidate.type
+      );
+    hasMatchingSense ||= sense.match;
+  }
+  if (!hasMatchingSense) {
+    return false;
+  }
+
+  result.reasonChains = candidate.reasonChains;
+  return true;
+}
+
+// Picks `count` words at random.
+//
+// If `seed` is provided, the same words will be returned each time (for the
+// same version of the database), e.g. for a "word of the day" feature.
+//
+// Note that if `commonOnly` or `pos` are very restrictive, fewer than `count`
+// words may be returned.
+export async function getRandomWords({
+  count,
+  seed,
+  commonOnly,
+  pos,
+}: {
+  count: number;
+  seed?: number;
+  commonOnly?: boolean;
+  pos?: Array<string>;
+}): Promise<Array<WordResult>> {
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  const store = db!.transaction('words').store;
+  const first = await store.openCursor();
+  const last = await store.openCursor(null, 'prev');
+  if (!first || !last) {
+    return [];
+  }
+
+  const filter: WordFilter | undefined =
+    commonOnly || pos ? { commonOnly, pos } : undefined;
+  const random = getRandomGenerator(seed);
+
+  const addedRecords: Set<number> = new Set();
+  const results: Array<WordResult> = [];
+
+  // Rather than fetching all the keys, pick a random ID in the range of IDs
+  // and take the first matching record from there.
+  //
+  // IDs are not evenly distributed so this is not perfectly uniform but it's
+  // good enough for our purposes.
+  const maxAttempts = count * 20;
+  const maxRecordsPerAttempt = 50;
+  for (
+    let attempt = 0;
+    attempt < maxAttempts && results.length < count;
+    attempt++
+  ) {
+    const id = first.key + Math.floor(random() * (last.key - first.key + 1));
+    let cursor = await store.openCursor(IDBKeyRange.lowerBound(id));
+    for (let i = 0; cursor && i < maxRecordsPerAttempt; i++) {
+      const record = cursor.value;
+      if (!addedRecords.has(record.id)) {
+        const result = toWordResultFromIdLookup(record);
+        if (!filter || applyWordFilter(result, filter)) {
+          results.push(result);
+          addedRecords.add(record.id);
+          break;
+        }
+      }
+      // Wrap around to the start if we reach the end
+      cursor = (await cursor.continue()) || (await store.openCursor());
+    }
+  }
+
+  return results;
+}
+
+// Aligns the reading at `readingIndex` of `result` to the characters of the
+// kanji headword at `kanjiIndex`, e.g. for rendering using <ruby> elements.
+//
+// Readings for individual kanji are taken from the kanji table where
+// available.
+export async function getFurigana(
+  result: WordResult,
+  kanjiIndex: number,
+  readingIndex: number
+): Promise<Array<FuriganaSegment>> {
+  const headword = result.k[kanjiIndex]?.ent;
+  const reading = result.r[readingIndex]?.ent;
+  if (!headword || !reading) {
+    throw new Error(
+      `Invalid headword or reading index: ${kanjiIndex}, ${readingIndex}`
+    );
+  }
+
+  const kanjiReadings: Map<string, Array<string>> = new Map();
+
+  const db = await open();
+  if (db) {
+    const kanjiTable = db!.transaction('kanji').store;
+    const kanji = [...new Set(headword)].filter((c) => isKanji(c));
+    const records = await Promise.all(
+      kanji.map((c) => kanjiTable.get(c.codePointAt(0)!))
+    );
+    for (const record of records) {
+      if (record) {
+        kanjiReadings.set(
+          String.fromCodePoint(record.c),
+          normalizeKanjiReadings([
+            ...(record.r.on || []),
+            ...(record.r.kun || []),
+          ])
+        );
+      }
+    }
+  }
+
+  return alignFurigana(headword, reading, kanjiReadings);
+}
+
+// Finds the longest run of characters at the start of `text` that matches
+// one or more words (or, if `includeNames` is set and no words match, names).
+//
+// All lookups are performed in a single transaction.
+export async function scanText(
+  text: string,
+  options?: { maxLength?: number; includeNames?: boolean; deinflect?: boolean }
+): Promise<ScanTextResult | null> {
+  const db = await open();
+  if (!db || !text.length) {
+    return null;
+  }
+
+  const maxLength = Math.min(options?.maxLength ?? 16, text.length);
+  const includeNames = options?.includeNames ?? false;
+  const shouldDeinflect = options?.deinflect ?? true;
+
+  const tx = db!.transaction(includeNames ? ['words', 'names'] : ['words']);
+
+  // Returns the lengths of the prefixes to try, starting with the longest
+  // and skipping any that would split a surrogate pair.
+  const prefixLengths = function* () {
+    for (let length = maxLength; length > 0; length--) {
+      const lastCodeUnit = text.charCodeAt(length - 1);
+      if (lastCodeUnit < 0xd800 || lastCodeUnit > 0xdbff) {
+        yield length;
+      }
+    }
+  };
+
+  // Words
+  const wordsStore = tx.objectStore('words');
+  for (const length of prefixLengths()) {
+    const prefix = text.slice(0, length).normalize();
+    const candidates = shouldDeinflect
+      ? deinflect(prefix)
+      : [{ word: prefix, type: 0, reasonChains: [] }];
+
+    const words = await getWordsForCandidates(wordsStore, candidates);
+
+    if (words.length) {
+      return {
+        type: 'words',
+        matchLength: length,
+        words: sortWordResults(words),
+      };
+    }
+  }
+
+  if (!includeNames) {
+    return null;
+  }
+
+  // Names
+  const namesStore = tx.objectStore('names');
+  for (const length of prefixLengths()) {
+    const prefix = text.slice(0, length).normalize();
+
+    const addedRecords: Set<number> = new Set();
+    const names: Array<NameResult> = [];
+    for (const [indexName, term] of [
+      ['k', prefix],
+      ['r', prefix],
+      ['h', kanaToHiragana(prefix)],
+    ] as const) {
+      for (const record of await namesStore
+        .index(indexName)
+        .getAll(IDBKeyRange.only(term))) {
+        if (!addedRecords.has(record.id)) {
+          names.push(stripFields(record, ['h', 'tt']));
+          addedRecords.add(record.id);
+        }
+      }
+    }
+
+    if (names.length) {
+      return { type: 'names', matchLength: length, names };
+    }
+  }
+
+  return null;
+}
+
 export async function getWordsByCrossReference(
   xref: CrossReference
 ): Promise<Array<WordResult>> {
@@ -248,35 +946,262 @@ export async function getWordsByCrossReference(
   return sortWordResults(results);
 }
 
-export async function getWordsWithKanji(
-  search: string
-): Promise<Array<WordResult>> {
+export async function getWordById(id: number): Promise<WordResult | null> {
+  const { words } = await getWordsByIds([id]);
+  return words.length ? words[0]! : null;
+}
+
+export async function getWordsByIds(
+  ids: Array<number>
+): Promise<WordsByIdsResult> {
   const db = await open();
   if (!db) {
-    return [];
-  }
-
-  // Check input. In future we may allow specifying a series of kanji and
-  // only returning words with all the kanji present, but we don't yet need
-  // that so for now just check we have a single character.
-  if ([...search].length !== 1) {
-    throw new Error(`Search string should be a single character: ${search}`);
+    return { words: [], missing: [] };
   }
 
-  // Normalize search string
-  const lookup = search.normalize();
-
-  // Set up our output value.
-  const results: Array<WordResult> = [];
+  const uniqueIds = [...new Set(ids)];
+  const store = db!.transaction('words').store;
+  const records = await Promise.all(uniqueIds.map((id) => store.get(id)));
 
-  const kanjiComponentIndex = db!.transaction('words').store.index('kc');
-  for await (const cursor of kanjiComponentIndex.iterate(
-    IDBKeyRange.only(lookup)
-  )) {
-    results.push(toWordResult(cursor.value, lookup, 'kanji'));
+  const words: Array<WordResult> = [];
+  const missing: Array<number> = [];
+  for (const [i, record] of records.entries()) {
+    if (record) {
+      words.push(toWordResultFromIdLookup(record));
+    } else {
+      missing.push(uniqueIds[i]!);
+    }
   }
 
-  return sortWordResults(results);
+  return { words, missing };
+}
+
+// Finds the words that refer to `target` via a cross-reference or antonym.
+//
+// `target` may be the ID of a word, or a headword and/or reading.
+export async function getWordsReferencing(
+  target: number | { k?: string; r?: string }
+): Promise<Array<WordReferenceResult>> {
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  const store = db!.transaction('words').store;
+
+  // Resolve the headwords to look for (where undefined means that any
+  // headword / reading matches)
+  let targetK: Array<string> | undefined;
+  let targetR: Array<string> | undefined;
+  if (typeof target === 'number') {
+    const record = await store.get(target);
+    if (!record) {
+      return [];
+    }
+    targetK = record.k || [];
+    targetR = record.r;
+  } else {
+    targetK = target.k ? [target.k.normalize()] : undefined;
+    targetR = target.r ? [target.r.normalize()] : undefined;
+  }
+
+  const isMatch = (ref: CrossReference): boolean => {
+    const k = ((ref as any).k as string | undefined)?.normalize();
+    const r = ((ref as any).r as string | undefined)?.normalize();
+    return (
+      (!k || !targetK || targetK.includes(k)) &&
+      (!r || !targetR || targetR.includes(r)) &&
+      (!!(k && targetK?.includes(k)) || !!(r && targetR?.includes(r)))
+    );
+  };
+
+  // Look up candidates using the cross-reference index
+  const candidates: Map<number, WordStoreRecord> = new Map();
+  const xrefIndex = store.index('xr');
+  for (const key of new Set([...(targetK || []), ...(targetR || [])])) {
+    for await (const cursor of xrefIndex.iterate(IDBKeyRange.only(key))) {
+      candidates.set(cursor.value.id, cursor.value);
+    }
+  }
+
+  const references: Map<number, WordReferenceResult['references']> = new Map();
+  const words: Array<WordResult> = [];
+  for (const record of candidates.values()) {
+    if (record.id === target) {
+      continue;
+    }
+
+    const recordReferences: WordReferenceResult['references'] = [];
+    for (const [sense, { xref, ant }] of record.s.entries()) {
+      for (const [type, refs] of [
+        ['xref', xref],
+        ['ant', ant],
+      ] as const) {
+        for (const ref of refs || []) {
+          if (isMatch(ref)) {
+            recordReferences.push({
+              type,
+              sense,
+              ...(ref.sense ? { targetSense: ref.sense - 1 } : undefined),
+              ref,
+            });
+          }
+        }
+      }
+    }
+
+    if (!recordReferences.length) {
+      continue;
+    }
+
+    const word = toWordResultFromIdLookup(record);
+    for (const [i, sense] of word.s.entries()) {
+      sense.match = recordReferences.some((ref) => ref.sense === i);
+    }
+    words.push(word);
+    references.set(record.id, recordReferences);
+  }
+
+  return sortWordResults(words).map((word) => ({
+    word,
+    references: references.get(word.id)!,
+  }));
+}
+
+// Finds words that are borrowed from the language `lang` (e.g. 'de').
+//
+// If `src` is specified, only words where the source term matches `src`
+// (ignoring case) are returned. If `waseiOnly` is set, only words made up of
+// foreign words that don't reflect their literal meaning are returned.
+//
+// Only the senses with a matching language source are marked as matching.
+export async function getWordsByLanguageSource({
+  lang,
+  src,
+  waseiOnly = false,
+  limit,
+}: {
+  lang: string;
+  src?: string;
+  waseiOnly?: boolean;
+  limit?: number;
+}): Promise<Array<WordResult>> {
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  const key = src
+    ? IDBKeyRange.only(toLanguageSourceKey(lang, src))
+    : IDBKeyRange.bound(`${lang}:`, `${lang}:\uFFFF`);
+  const srcLower = src?.normalize().toLowerCase();
+  const isMatch = (lsrc: LangSource): boolean =>
+    (lsrc.lang || 'en') === lang &&
+    (!srcLower || (lsrc.src || '').normalize().toLowerCase() === srcLower) &&
+    (!waseiOnly || !!lsrc.wasei);
+
+  const addedRecords: Set<number> = new Set();
+  const results: Array<WordResult> = [];
+
+  const languageSourceIndex = db!.transaction('words').store.index('ls');
+  for await (const cursor of languageSourceIndex.iterate(key)) {
+    if (addedRecords.has(cursor.value.id)) {
+      continue;
+    }
+    addedRecords.add(cursor.value.id);
+
+    const result = toWordResultFromIdLookup(cursor.value);
+    for (const sense of result.s) {
+      sense.match = !!sense.lsrc?.some(isMatch);
+    }
+    if (result.s.some((sense) => sense.match)) {
+      results.push(result);
+    }
+  }
+
+  const sortedResult = sortWordResults(results);
+  if (limit) {
+    sortedResult.splice(limit);
+  }
+
+  return sortedResult;
+}
+
+// - `all`: words with a headword containing all of the kanji in `search`
+// - `any`: words with a headword containing any of the kanji in `search`
+// - `onlyFrom`: words with a headword made up of only kanji from `search`
+//   (e.g. for finding words that use only kanji the user already knows)
+export type KanjiWordMode = 'all' | 'any' | 'onlyFrom';
+
+export async function getWordsWithKanji(
+  search: string,
+  options?: {
+    mode?: KanjiWordMode;
+    limit?: number;
+    offset?: number;
+    filter?: WordFilter;
+  }
+): Promise<Array<WordResult>> {
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  // Normalize search string and split into individual characters
+  const kanji = [...new Set(search.normalize())];
+  if (!kanji.length) {
+    throw new Error('Search string should contain at least one character');
+  }
+
+  const mode = options?.mode ?? 'all';
+  const offset = options?.offset ?? 0;
+  const limit = options?.limit ?? Infinity;
+
+  // Look up the IDs of the candidate records using the kanji component index
+  const store = db!.transaction('words').store;
+  const kanjiComponentIndex = store.index('kc');
+  const idsPerKanji = await Promise.all(
+    kanji.map((c) => kanjiComponentIndex.getAllKeys(IDBKeyRange.only(c)))
+  );
+
+  let ids: Array<number>;
+  if (mode === 'all') {
+    // Intersect the results, starting with the smallest set
+    idsPerKanji.sort((a, b) => a.length - b.length);
+    const [smallest, ...rest] = idsPerKanji;
+    const restSets = rest.map((ids) => new Set(ids));
+    ids = smallest!.filter((id) => restSets.every((set) => set.has(id)));
+  } else {
+    ids = [...new Set(([] as Array<number>).concat(...idsPerKanji))];
+  }
+
+  // Sort by ID so that the order of results with equal priority is stable
+  // between calls (and hence we can page through them)
+  ids.sort((a, b) => a - b);
+
+  const matchMode: MatchMode =
+    mode === 'all' ? 'all-kanji' : mode === 'any' ? 'kanji' : 'only-kanji';
+  const records = await Promise.all(ids.map((id) => store.get(id)));
+
+  const results: Array<WordResult> = [];
+  for (const record of records) {
+    if (!record) {
+      continue;
+    }
+
+    // Check there is a headword that matches since the index lookups are
+    // across all the headwords in the entry.
+    const result = toWordResult(record, kanji.join(''), matchMode);
+    if (!result.k.some((k) => k.match)) {
+      continue;
+    }
+
+    if (!options?.filter || applyWordFilter(result, options.filter)) {
+      results.push(result);
+    }
+  }
+
+  return sortWordResults(results).slice(offset, offset + limit);
 }
 
 type GlossSearchResultMeta = {
@@ -309,10 +1234,13 @@ type MatchedRange = [sense: number, gloss: number, start: number, end: number];
 // We have the caller pass in the language since otherwise we would have to
 // look up the database version record which could cause us to block if the
 // database is being updated.
+//
+// If `limit` is not set, at most 100 results are returned.
 export async function getWordsWithGloss(
   search: string,
   lang: string,
-  limit?: number
+  limit?: number,
+  options?: { filter?: WordFilter }
 ): Promise<Array<WordResult>> {
   const db = await open();
   if (!db) {
@@ -329,185 +1257,822 @@ export async function getWordsWithGloss(
 
   // First search using the specified locale (if not English).
   if (lang !== 'en') {
-    const records = await lookUpGlosses(db, search, lang, numGlossCandidates);
-    for (const [record, confidence, matchedRanges] of records) {
-      const result = toWordResultFromGlossLookup(record, matchedRanges);
+    const candidates = await lookUpGlosses({
+      db,
+      term: search,
+      locale: lang,
+      limit: numGlossCandidates,
+      filter: options?.filter,
+    });
+    for (const [result, confidence] of candidates) {
       const priority = getPriority(result);
 
       results.push(result);
-      resultMeta.set(record.id, { confidence, priority, localizedMatch: true });
+      resultMeta.set(result.id, { confidence, priority, localizedMatch: true });
+    }
+  }
+
+  // Look up English fallback glosses
+  //
+  // We do this even if we have enough candidates in results since the search
+  // might be on an English term.
+  {
+    const candidates = await lookUpGlosses({
+      db,
+      term: search,
+      locale: 'en',
+      limit: numGlossCandidates,
+      filter: options?.filter,
+    });
+    for (const [result, confidence] of candidates) {
+      // If we already added this record as a localized match, skip it.
+      if (lang !== 'en' && resultMeta.has(result.id)) {
+        continue;
+      }
+
+      const priority = getPriority(result);
+
+      results.push(result);
+      resultMeta.set(result.id, {
+        confidence,
+        priority,
+        localizedMatch: false,
+      });
+    }
+  }
+
+  // Sort using the following scoring:
+  //
+  // * Confidence value (value 0 to 10.5) scaled to a value from 0~105
+  // * Priority value in the range 0~67
+  // * Localized vs English fallback: +50 for a localized result
+  //
+  const recordScore = (id: number): number => {
+    const meta = resultMeta.get(id)!;
+    return (
+      meta.confidence * 10 + meta.priority + (meta.localizedMatch ? 50 : 0)
+    );
+  };
+  results.sort((a, b) => recordScore(b.id) - recordScore(a.id));
+
+  // Limit the results to the requested limit
+  const actualLimit = Math.max(limit || 0, 0) || 100;
+
+  return results.slice(0, actualLimit);
+}
+
+// Looks up words with a gloss that matches `term`, returning at most `limit`
+// results.
+//
+// Words that don't match `filter` are skipped as we go so that they don't
+// count towards the limit.
+async function lookUpGlosses({
+  db,
+  term,
+  locale,
+  limit,
+  filter,
+}: {
+  db: IDBPDatabase<JpdictSchema>;
+  term: string;
+  locale: string;
+  limit: number;
+  filter?: WordFilter;
+}): Promise<Array<[result: WordResult, confidence: number]>> {
+  // Get search tokens
+  const tokens = getTokens(term.normalize(), locale);
+  if (!tokens || !tokens.length) {
+    return [];
+  }
+
+  // Prepare lowercase version of the term for later substring matching
+  const termLower = term.toLocaleLowerCase(locale);
+
+  // Prepare result
+  const result: Array<[WordResult, number]> = [];
+
+  // Look for any records matching the first token in the appropriate index
+  const indexName = locale === 'en' ? 'gt_en' : 'gt_l';
+  const glossIndex = db!.transaction('words').store.index(indexName);
+  let hasFullMatchOnFirstToken = false;
+  for await (const cursor of glossIndex.iterate(
+    // Prefix match on first token
+    IDBKeyRange.bound(tokens[0], tokens[0] + '\uFFFF')
+  )) {
+    const record = cursor.value;
+
+    // If we have multiple tokens and completely match the first token, we
+    // should not add any substring matches on that token.
+    //
+    // e.g. if we search on "stand up" and get a match on "stand" we should not
+    // add any results that match on "standard" etc. (but we should add such
+    // results if our search term was "stand" or "stan" or "standa" etc.).
+    const fullMatchOnFirstToken =
+      tokens.length > 1 && record[indexName].includes(tokens[0]!);
+    if (!fullMatchOnFirstToken && hasFullMatchOnFirstToken) {
+      break;
+    }
+    hasFullMatchOnFirstToken = fullMatchOnFirstToken;
+
+    // Check if the record has a sense which a substring match on the original
+    // search term.
+    const matchedRanges: Array<MatchedRange> = [];
+    let confidence = 0;
+    for (const [senseIndex, sense] of record.s.entries()) {
+      // We need to skip these here, rather than filtering records, in order
+      // to maintain the original sense indices.
+      if ((sense.lang || 'en') !== locale) {
+        continue;
+      }
+
+      // Look for a substring match
+      for (const [glossIndex, gloss] of sense.g.entries()) {
+        const substringStart = gloss
+          .toLocaleLowerCase(locale)
+          .indexOf(termLower);
+        if (substringStart !== -1) {
+          matchedRanges.push([
+            senseIndex,
+            glossIndex,
+            substringStart,
+            substringStart + term.length,
+          ]);
+
+          const thisConfidence = getMatchConfidence({
+            term,
+            tokens,
+            text: gloss,
+            locale,
+            recordTokens: record[indexName],
+          });
+          confidence = Math.max(confidence, thisConfidence);
+        }
+      }
+
+      // Even if we found a match, we need to go through all senses because
+      // there could be multiple matches.
+    }
+
+    if (matchedRanges.length) {
+      const wordResult = toWordResultFromGlossLookup(record, matchedRanges);
+      if (!filter || applyWordFilter(wordResult, filter)) {
+        result.push([wordResult, confidence]);
+      }
+    }
+
+    if (result.length >= limit) {
+      break;
+    }
+  }
+
+  return result;
+}
+
+// Calculate the confidence for a substring match on `text` as follows:
+//
+// 1) Percentage of string that matched converted to an integer
+//    between 1 and 10
+// 2) Extra 0.5 point if the start token of the search term and the record
+//    match.
+function getMatchConfidence({
+  term,
+  tokens,
+  text,
+  locale,
+  recordTokens,
+}: {
+  term: string;
+  tokens: Array<string>;
+  text: string;
+  locale: string;
+  recordTokens: Array<string>;
+}): number {
+  const textConfidence = (term.length / text.length) * 10;
+  const tokenConfidence = (tokens.length / getTokens(text, locale).length) * 10;
+  let confidence = Math.round(Math.max(textConfidence, tokenConfidence));
+  if (tokens[0] === recordTokens[0]) {
+    confidence += 0.5;
+  }
+  return confidence;
+}
+
+// -------------------------------------------------------------------------
+//
+// Kanji
+//
+// -------------------------------------------------------------------------
+
+export async function getKanji({
+  kanji,
+  lang,
+  logWarningMessage = console.log,
+}: {
+  kanji: Array<string>;
+  lang: string;
+  logWarningMessage?: (msg: string) => void;
+}): Promise<Array<KanjiResult>> {
+  const ids = kanji.map((kanji) => kanji.codePointAt(0)!);
+  const kanjiRecords: Array<KanjiStoreRecord> = await getKanjiById(ids);
+
+  return toKanjiResults({ kanjiRecords, lang, logWarningMessage });
+}
+
+export type KanjiReadingType = 'on' | 'kun' | 'na';
+
+export async function getKanjiByReading({
+  reading,
+  type,
+  matchType = 'exact',
+  lang,
+  logWarningMessage = console.log,
+}: {
+  reading: string;
+  // If not set, all reading types are searched
+  type?: KanjiReadingType;
+  matchType?: MatchType;
+  lang: string;
+  logWarningMessage?: (msg: string) => void;
+}): Promise<Array<KanjiResult>> {
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  const search = normalizeKanjiReading(reading.normalize());
+  if (!search) {
+    return [];
+  }
+
+  const matches = (candidate: string) => {
+    const normalized = normalizeKanjiReading(candidate);
+    return matchType === 'exact'
+      ? normalized === search
+      : normalized.startsWith(search);
+  };
+
+  // The indices store the readings as they appear in KANJIDIC, i.e. on
+  // readings in katakana, kun readings in hiragana with a dot separating the
+  // okurigana, and prefix/suffix readings marked with a hyphen.
+  //
+  // Since the dot can appear anywhere after the first character we can't
+  // look up the normalized reading directly. Instead we iterate over all
+  // readings starting with the same character and filter them.
+  const firstChar = search[0]!;
+  const prefixes = [firstChar, hiraganaToKatakana(firstChar)].flatMap((c) => [
+    c,
+    `-${c}`,
+  ]);
+
+  const kanjiRecords: Array<KanjiStoreRecord> = [];
+  const addedRecords: Set<number> = new Set();
+
+  const types: Array<KanjiReadingType> = type ? [type] : ['on', 'kun', 'na'];
+  for (const readingType of types) {
+    const index = db!.transaction('kanji').store.index(`r.${readingType}`);
+    for (const prefix of new Set(prefixes)) {
+      const key = IDBKeyRange.bound(prefix, prefix + '\uFFFF');
+      for await (const cursor of index.iterate(key)) {
+        const record = cursor.value;
+        if (
+          addedRecords.has(record.c) ||
+          !record.r[readingType]?.some(matches)
+        ) {
+          continue;
+        }
+        kanjiRecords.push(record);
+        addedRecords.add(record.c);
+      }
+    }
+  }
+
+  // Put the most frequently used kanji first
+  kanjiRecords.sort(
+    (a, b) => (a.misc.freq ?? Infinity) - (b.misc.freq ?? Infinity)
+  );
+
+  return toKanjiResults({ kanjiRecords, lang, logWarningMessage });
+}
+
+// Converts a KANJIDIC reading to hiragana and drops any okurigana separator or
+// prefix/suffix marker, e.g. た.べる → たべる, ショク → しょく.
+function normalizeKanjiReading(reading: string): string {
+  return kanaToHiragana(reading).replace(/[.-]/g, '');
+}
+
+// Looks up kanji containing all of the given components.
+//
+// Components should be given in the form they appear in the `comp` field of
+// the kanji data (e.g. ⼸ or ⺮), although a kanji that corresponds to a
+// radical (e.g. 弓) will also match its radical form.
+//
+// Along with the matching kanji, returns the other components that appear in
+// them so that a radical picker can narrow down the set of components that
+// can be selected next.
+export async function getKanjiByComponents(
+  components: Array<string>,
+  options?: { strokeRange?: [min: number, max: number] }
+): Promise<KanjiComponentSearchResult> {
+  const db = await open();
+  if (!db || !components.length) {
+    return { kanji: [], nextComponents: [] };
+  }
+
+  // Expand each component to include any equivalent radical forms
+  const componentSets: Array<Set<string>> = [];
+  {
+    const tx = db!.transaction('radicals');
+    for (const c of components) {
+      const equivalents = new Set([c.normalize()]);
+      for (const radical of await tx.store.index('k').getAll(c)) {
+        if (radical.b) {
+          equivalents.add(radical.b);
+        }
+      }
+      for (const radical of await tx.store.index('b').getAll(c)) {
+        if (radical.k) {
+          equivalents.add(radical.k);
+        }
+      }
+      componentSets.push(equivalents);
+    }
+  }
+
+  // Look up the candidates using the first component and then filter them
+  // using the rest.
+  const [min, max] = options?.strokeRange ?? [0, Infinity];
+  const kanjiRecords: Array<KanjiStoreRecord> = [];
+  const addedRecords: Set<number> = new Set();
+  {
+    const index = db!.transaction('kanji').store.index('cc');
+    for (const c of componentSets[0]!) {
+      for await (const cursor of index.iterate(IDBKeyRange.only(c))) {
+        const record = cursor.value;
+        if (
+          addedRecords.has(record.c) ||
+          record.misc.sc < min ||
+          record.misc.sc > max ||
+          !componentSets.every((set) => record.cc.some((cc) => set.has(cc)))
+        ) {
+          continue;
+        }
+        kanjiRecords.push(record);
+        addedRecords.add(record.c);
+      }
+    }
+  }
+
+  // Sort by stroke count and then by frequency
+  kanjiRecords.sort(
+    (a, b) =>
+      a.misc.sc - b.misc.sc ||
+      (a.misc.freq ?? Infinity) - (b.misc.freq ?? Infinity)
+  );
+
+  // Collect the remaining components
+  const selected = new Set(componentSets.flatMap((set) => [...set]));
+  const nextComponents: Set<string> = new Set();
+  for (const record of kanjiRecords) {
+    for (const cc of record.cc) {
+      if (!selected.has(cc)) {
+        nextComponents.add(cc);
+      }
+    }
+  }
+
+  return {
+    kanji: kanjiRecords.map((record) => ({
+      c: String.fromCodePoint(record.c),
+      sc: record.misc.sc,
+    })),
+    nextComponents: [...nextComponents].sort(),
+  };
+}
+
+// Looks up kanji with a meaning that matches `search`.
+//
+// If `limit` is not set, at most 100 results are returned.
+export async function getKanjiWithMeaning(
+  search: string,
+  lang: string,
+  limit?: number
+): Promise<Array<KanjiResult>> {
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  const records = await lookUpKanjiMeanings(db, search, lang);
+
+  // Sort using the same scoring as getWordsWithGloss:
+  //
+  // * Confidence value (value 0 to 10.5) scaled to a value from 0~105
+  // * Priority value in the range 0~67
+  // * Localized vs English fallback: +50 for a localized result
+  //
+  const scores: Map<number, number> = new Map();
+  for (const [record, confidence] of records) {
+    const localizedMatch = (record.m_lang || lang) === lang;
+    scores.set(
+      record.c,
+      confidence * 10 + getKanjiPriority(record) + (localizedMatch ? 50 : 0)
+    );
+  }
+  const kanjiRecords = records.map(([record]) => record);
+  kanjiRecords.sort((a, b) => scores.get(b.c)! - scores.get(a.c)!);
+
+  // Limit the results to the requested limit (or 100 if none was given)
+  const actualLimit = Math.max(limit || 0, 0) || 100;
+  kanjiRecords.splice(actualLimit);
+
+  return toKanjiResults({ kanjiRecords, lang, logWarningMessage: console.log });
+}
+
+async function lookUpKanjiMeanings(
+  db: IDBPDatabase<JpdictSchema>,
+  term: string,
+  lang: string
+): Promise<Array<[record: KanjiStoreRecord, confidence: number]>> {
+  // Since we don't know if the search term is in the localized language or in
+  // English (for records that fall back to English), we try both sets of
+  // tokens.
+  const tokenSets = [...new Set([lang, 'en'])].map(
+    (locale): [string, Array<string>] => [
+      locale,
+      getTokens(term.normalize(), locale),
+    ]
+  );
+
+  const result: Map<number, [KanjiStoreRecord, number]> = new Map();
+
+  for (const [locale, tokens] of tokenSets) {
+    if (!tokens.length) {
+      continue;
+    }
+
+    const termLower = term.toLocaleLowerCase(locale);
+
+    // Look for any records matching the first token and then check for
+    // a substring match on the full term.
+    const meaningIndex = db!.transaction('kanji').store.index('mt');
+    for await (const cursor of meaningIndex.iterate(
+      IDBKeyRange.bound(tokens[0], tokens[0] + '\uFFFF')
+    )) {
+      const record = cursor.value;
+      if (result.has(record.c) || (record.m_lang || lang) !== locale) {
+        continue;
+      }
+
+      let confidence = 0;
+      for (const meaning of record.m) {
+        if (meaning.toLocaleLowerCase(locale).includes(termLower)) {
+          confidence = Math.max(
+            confidence,
+            getMatchConfidence({
+              term,
+              tokens,
+              text: meaning,
+              locale,
+              recordTokens: record.mt,
+            })
+          );
+        }
+      }
+
+      if (confidence) {
+        result.set(record.c, [record, confidence]);
+      }
     }
   }
 
-  // Look up English fallback glosses
-  //
-  // We do this even if we have enough candidates in results since the search
-  // might be on an English term.
-  {
-    const records = await lookUpGlosses(db, search, 'en', numGlossCandidates);
-    for (const [record, confidence, matchedRanges] of records) {
-      // If we already added this record as a localized match, skip it.
-      if (lang !== 'en' && resultMeta.has(record.id)) {
-        continue;
-      }
-
-      const result = toWordResultFromGlossLookup(record, matchedRanges);
-      const priority = getPriority(result);
+  return [...result.values()];
+}
+
+// Produces a value in the range 0~67 (to match the range of priority values
+// for words) based on the frequency, grade, and JLPT level of a kanji.
+function getKanjiPriority({ misc }: KanjiStoreRecord): number {
+  let priority = 0;
+
+  // Frequency ranking for the 2,500 most common kanji: 10~40
+  if (misc.freq) {
+    priority += 10 + (30 * (2500 - Math.min(misc.freq, 2500))) / 2500;
+  }
+
+  // Grades 1~6 (kyōiku kanji): 2~12, Grade 8 (remaining jōyō kanji): 1
+  if (misc.gr) {
+    priority += misc.gr <= 6 ? (7 - misc.gr) * 2 : misc.gr === 8 ? 1 : 0;
+  }
+
+  // JLPT N5~N1: 15~3
+  if (misc.jlptn) {
+    priority += misc.jlptn * 3;
+  }
+
+  return priority;
+}
+
+// Looks up the variant forms of `c` (in both directions, i.e. the kanji
+// listed as variants of `c` and the kanji that list `c` as a variant).
+export async function getKanjiVariants(
+  c: string,
+  lang: string
+): Promise<Array<KanjiVariant>> {
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  const store = db!.transaction('kanji').store;
+  const record = await store.get(c.codePointAt(0)!);
+  if (!record) {
+    return [];
+  }
 
-      results.push(result);
-      resultMeta.set(record.id, {
-        confidence,
-        priority,
-        localizedMatch: false,
+  const variants: Map<number, KanjiVariant> = new Map();
+  for (const variant of record.var || []) {
+    const variantRecord = await store.get(variant.codePointAt(0)!);
+    if (variantRecord) {
+      variants.set(variantRecord.c, {
+        ...toRelatedKanji(variantRecord, lang),
+        source: 'listed',
       });
     }
   }
+  for (const variantRecord of await store
+    .index('var')
+    .getAll(IDBKeyRange.only(c))) {
+    if (!variants.has(variantRecord.c)) {
+      variants.set(variantRecord.c, {
+        ...toRelatedKanji(variantRecord, lang),
+        source: 'reverse',
+      });
+    }
+  }
+  variants.delete(record.c);
 
-  // Sort using the following scoring:
-  //
-  // * Confidence value (value 0 to 10.5) scaled to a value from 0~105
-  // * Priority value in the range 0~67
-  // * Localized vs English fallback: +50 for a localized result
-  //
-  const recordScore = (id: number): number => {
-    const meta = resultMeta.get(id)!;
-    return (
-      meta.confidence * 10 + meta.priority + (meta.localizedMatch ? 50 : 0)
-    );
-  };
-  results.sort((a, b) => recordScore(b.id) - recordScore(a.id));
-
-  // Limit the results to the requested limit
-  const actualLimit = Math.max(limit || 0, 0) || 100;
-
-  return results.slice(0, actualLimit);
+  return [...variants.values()];
 }
 
-async function lookUpGlosses(
-  db: IDBPDatabase<JpdictSchema>,
-  term: string,
-  locale: string,
-  limit: number
-): Promise<
-  Array<
-    [
-      record: WordStoreRecord,
-      confidence: number,
-      matchedRanges: Array<MatchedRange>,
-    ]
-  >
-> {
-  // Get search tokens
-  const tokens = getTokens(term.normalize(), locale);
-  if (!tokens || !tokens.length) {
+// Looks up kanji that look similar to `c` based on the components they share.
+//
+// The score for each result is a value between 0 and 1 calculated from the
+// proportion of components the kanji share and how close their stroke counts
+// are.
+export async function getVisuallySimilarKanji(
+  c: string,
+  lang: string,
+  limit = 10
+): Promise<Array<SimilarKanji>> {
+  const db = await open();
+  if (!db) {
     return [];
   }
 
-  // Prepare lowercase version of the term for later substring matching
-  const termLower = term.toLocaleLowerCase(locale);
-
-  // Prepare result
-  const result: Array<[WordStoreRecord, number, Array<MatchedRange>]> = [];
+  const store = db!.transaction('kanji').store;
+  const record = await store.get(c.codePointAt(0)!);
+  if (!record || !record.cc.length) {
+    return [];
+  }
 
-  // Look for any records matching the first token in the appropriate index
-  const indexName = locale === 'en' ? 'gt_en' : 'gt_l';
-  const glossIndex = db!.transaction('words').store.index(indexName);
-  let hasFullMatchOnFirstToken = false;
-  for await (const cursor of glossIndex.iterate(
-    // Prefix match on first token
-    IDBKeyRange.bound(tokens[0], tokens[0] + '\uFFFF')
-  )) {
-    const record = cursor.value;
+  // Count the number of components each candidate shares with `c`
+  const sharedCounts: Map<number, number> = new Map();
+  for (const component of record.cc) {
+    for (const key of await store
+      .index('cc')
+      .getAllKeys(IDBKeyRange.only(component))) {
+      sharedCounts.set(key, (sharedCounts.get(key) || 0) + 1);
+    }
+  }
+  sharedCounts.delete(record.c);
+
+  // Look up the candidates that share the most components
+  const candidateKeys = [...sharedCounts.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, Math.max(limit * 5, 50))
+    .map(([key]) => key);
+  const candidates = await Promise.all(
+    candidateKeys.map((key) => store.get(key))
+  );
 
-    // If we have multiple tokens and completely match the first token, we
-    // should not add any substring matches on that token.
-    //
-    // e.g. if we search on "stand up" and get a match on "stand" we should not
-    // add any results that match on "standard" etc. (but we should add such
-    // results if our search term was "stand" or "stan" or "standa" etc.).
-    const fullMatchOnFirstToken =
-      tokens.length > 1 && record[indexName].includes(tokens[0]!);
-    if (!fullMatchOnFirstToken && hasFullMatchOnFirstToken) {
-      break;
+  const results: Array<SimilarKanji> = [];
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
     }
-    hasFullMatchOnFirstToken = fullMatchOnFirstToken;
 
-    // Check if the record has a sense which a substring match on the original
-    // search term.
-    const matchedRanges: Array<MatchedRange> = [];
-    let confidence = 0;
-    for (const [senseIndex, sense] of record.s.entries()) {
-      // We need to skip these here, rather than filtering records, in order
-      // to maintain the original sense indices.
-      if ((sense.lang || 'en') !== locale) {
-        continue;
-      }
+    const shared = sharedCounts.get(candidate.c)!;
+    const componentScore =
+      (2 * shared) / (record.cc.length + candidate.cc.length);
+    const strokeScore =
+      1 -
+      Math.abs(record.misc.sc - candidate.misc.sc) /
+        Math.max(record.misc.sc, candidate.misc.sc);
+    results.push({
+      ...toRelatedKanji(candidate, lang),
+      score: Math.round((componentScore * 0.8 + strokeScore * 0.2) * 100) / 100,
+    });
+  }
 
-      // Look for a substring match
-      for (const [glossIndex, gloss] of sense.g.entries()) {
-        const substringStart = gloss
-          .toLocaleLowerCase(locale)
-          .indexOf(termLower);
-        if (substringStart !== -1) {
-          matchedRanges.push([
-            senseIndex,
-            glossIndex,
-            substringStart,
-            substringStart + term.length,
-          ]);
+  results.sort(
+    (a, b) =>
+      b.score - a.score || (a.misc.freq ?? Infinity) - (b.misc.freq ?? Infinity)
+  );
 
-          // Calculate the confidence for this particular match as follows:
-          //
-          // 1) Percentage of string that matched converted to an integer
-          //    between 1 and 10
-          // 2) Extra 0.5 point if the start token of the search term and gloss
-          //    match.
-          const textConfidence = (term.length / gloss.length) * 10;
-          const tokenConfidence =
-            (tokens.length / getTokens(gloss, locale).length) * 10;
-          let thisConfidence = Math.round(
-            Math.max(textConfidence, tokenConfidence)
-          );
-          if (tokens[0] === record[indexName][0]) {
-            thisConfidence += 0.5;
-          }
-          confidence = Math.max(confidence, thisConfidence);
-        }
-      }
+  return results.slice(0, limit);
+}
 
-      // Even if we found a match, we need to go through all senses because
-      // there could be multiple matches.
-    }
+export type KanjiSortOrder = 'codepoint' | 'freq' | 'strokeCount';
 
-    if (matchedRanges.length) {
-      result.push([record, confidence, matchedRanges]);
+// Lists the kanji matching the given filters.
+//
+// Kanji that lack the field used for sorting (e.g. kanji outside the 2,500
+// most frequently used kanji when sorting by `freq`) are sorted last.
+export async function listKanji({
+  grade,
+  jlpt,
+  kanken,
+  wkLevel,
+  strokeCount,
+  sortBy = 'codepoint',
+  offset = 0,
+  limit = 100,
+  lang,
+  logWarningMessage = console.log,
+}: {
+  grade?: number;
+  // The "new" JLPT level (i.e. N5~N1)
+  jlpt?: number;
+  kanken?: number;
+  wkLevel?: number;
+  strokeCount?: [min: number, max: number];
+  sortBy?: KanjiSortOrder;
+  offset?: number;
+  limit?: number;
+  lang: string;
+  logWarningMessage?: (msg: string) => void;
+}): Promise<Array<KanjiResult>> {
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  const filters = (
+    [
+      ['misc.gr', 'gr', grade],
+      ['misc.jlptn', 'jlptn', jlpt],
+      ['misc.kk', 'kk', kanken],
+      ['misc.wk', 'wk', wkLevel],
+    ] as const
+  ).filter(([, , value]) => typeof value === 'number');
+
+  const sortField = kanjiSortFields[sortBy];
+  let kanjiRecords: Array<KanjiStoreRecord>;
+
+  if (filters.length || strokeCount) {
+    // Look up the candidates using one of the filters and then apply the
+    // remaining filters and sort the result.
+    const [indexName, key] = filters.length
+      ? [filters[0]![0], IDBKeyRange.only(filters[0]![2])]
+      : (['misc.sc', IDBKeyRange.bound(...strokeCount!)] as const);
+    const candidates = await db!
+      .transaction('kanji')
+      .store.index(indexName)
+      .getAll(key);
+
+    const [minStrokes, maxStrokes] = strokeCount ?? [0, Infinity];
+    kanjiRecords = candidates
+      .filter(
+        ({ misc }) =>
+          filters.every(([, field, value]) => misc[field] === value) &&
+          misc.sc >= minStrokes &&
+          misc.sc <= maxStrokes
+      )
+      .sort((a, b) => {
+        const aValue = sortField ? (a.misc[sortField] ?? Infinity) : 0;
+        const bValue = sortField ? (b.misc[sortField] ?? Infinity) : 0;
+        return aValue - bValue || a.c - b.c;
+      })
+      .slice(offset, offset + limit);
+  } else {
+    // Without any filters, we can page through the index for the sort order
+    // directly.
+    kanjiRecords = [];
+    const tx = db!.transaction('kanji');
+    let toSkip = offset;
+
+    const source =
+      sortBy === 'freq'
+        ? tx.store.index('misc.freq')
+        : sortBy === 'strokeCount'
+          ? tx.store.index('misc.sc')
+          : tx.store;
+    const count = await source.count();
+    if (toSkip < count) {
+      let cursor = await source.openCursor();
+      if (cursor && toSkip) {
+        cursor = await cursor.advance(toSkip);
+      }
+      while (cursor && kanjiRecords.length < limit) {
+        kanjiRecords.push(cursor.value);
+        cursor = await cursor.continue();
+      }
+      toSkip = 0;
+    } else {
+      toSkip -= count;
     }
 
-    if (result.length >= limit) {
-      break;
+    // Add any records that were not included in the frequency index
+    if (sortBy === 'freq' && kanjiRecords.length < limit) {
+      for await (const cursor of tx.store.iterate()) {
+        if (typeof cursor.value.misc.freq === 'number') {
+          continue;
+        }
+        if (toSkip) {
+          toSkip--;
+          continue;
+        }
+        kanjiRecords.push(cursor.value);
+        if (kanjiRecords.length >= limit) {
+          break;
+        }
+      }
     }
   }
 
-  return result;
+  return toKanjiResults({ kanjiRecords, lang, logWarningMessage });
 }
 
-// -------------------------------------------------------------------------
-//
-// Kanji
-//
-// -------------------------------------------------------------------------
+const kanjiSortFields: Record<KanjiSortOrder, 'freq' | 'sc' | undefined> = {
+  codepoint: undefined,
+  freq: 'freq',
+  strokeCount: 'sc',
+};
 
-export async function getKanji({
-  kanji,
+// Picks `count` kanji at random, optionally restricted to the given JLPT
+// level (N5~N1) and/or grade.
+//
+// If `seed` is provided, the same kanji will be returned each time (for the
+// same version of the database).
+export async function getRandomKanji({
+  count,
+  seed,
+  jlpt,
+  grade,
   lang,
   logWarningMessage = console.log,
 }: {
-  kanji: Array<string>;
+  count: number;
+  seed?: number;
+  jlpt?: number;
+  grade?: number;
   lang: string;
   logWarningMessage?: (msg: string) => void;
 }): Promise<Array<KanjiResult>> {
-  const ids = kanji.map((kanji) => kanji.codePointAt(0)!);
-  const kanjiRecords: Array<KanjiStoreRecord> = await getKanjiById(ids);
+  const db = await open();
+  if (!db) {
+    return [];
+  }
+
+  // Since there are relatively few kanji, we can simply fetch all the
+  // candidate keys and sample from them.
+  const store = db!.transaction('kanji').store;
+  const filters = (
+    [
+      ['misc.jlptn', jlpt],
+      ['misc.gr', grade],
+    ] as const
+  ).filter(([, value]) => typeof value === 'number');
+
+  let keys: Array<number>;
+  if (filters.length) {
+    const keySets = await Promise.all(
+      filters.map(([indexName, value]) =>
+        store.index(indexName).getAllKeys(IDBKeyRange.only(value))
+      )
+    );
+    const [firstKeys, ...rest] = keySets;
+    const restSets = rest.map((keys) => new Set(keys));
+    keys = firstKeys!.filter((key) => restSets.every((set) => set.has(key)));
+  } else {
+    keys = await store.getAllKeys();
+  }
+
+  const random = getRandomGenerator(seed);
+  const kanjiRecords = (
+    await Promise.all(sample(keys, count, random).map((key) => store.get(key)))
+  ).filter((record): record is KanjiStoreRecord => !!record);
+
+  return toKanjiResults({ kanjiRecords, lang, logWarningMessage });
+}
+
+async function toKanjiResults({
+  kanjiRecords,
+  lang,
+  logWarningMessage,
+}: {
+  kanjiRecords: Array<KanjiStoreRecord>;
+  lang: string;
+  logWarningMessage: (msg: string) => void;
+}): Promise<Array<KanjiResult>> {
   const radicalRecords = await getRadicals();
 
   const radicalResults = await getRadicalForKanji({
@@ -543,7 +2108,7 @@ export async function getKanji({
 
   // Zip the arrays together
   return kanjiRecords.map<KanjiResult>((record, i) => ({
-    ...record,
+    ...stripFields(record, ['cc', 'mt']),
     c: String.fromCodePoint(record.c),
     m_lang: record.m_lang || lang,
     rad: radicalResults[i]!,
@@ -988,8 +2553,7 @@ async function getRelatedKanji(
         continue;
       }
 
-      const { r, m, m_lang, misc } = kanji;
-      relatedKanji.push({ c: cfChar, r, m, m_lang: m_lang || lang, misc });
+      relatedKanji.push(toRelatedKanji(kanji, lang));
     }
     result.push(relatedKanji);
   }
@@ -997,6 +2561,17 @@ async function getRelatedKanji(
   return result;
 }
 
+function toRelatedKanji(record: KanjiStoreRecord, lang: string): RelatedKanji {
+  const { r, m, m_lang, misc } = record;
+  return {
+    c: String.fromCodePoint(record.c),
+    r,
+    m,
+    m_lang: m_lang || lang,
+    misc,
+  };
+}
+
 async function getRadicals(): Promise<Map<string, RadicalStoreRecord>> {
   const db = await open();
   if (!db) {
@@ -1062,49 +2637,220 @@ async function getRadicalComponentInfo(
 //
 // -------------------------------------------------------------------------
 
-export async function getNames(search: string): Promise<Array<NameResult>> {
+export async function getNames(
+  search: string,
+  options?: {
+    matchType?: MatchType;
+    limit?: number;
+    types?: Array<NameType>;
+    romaji?: boolean;
+  }
+): Promise<Array<NameResult>> {
   const db = await open();
   if (!db) {
     return [];
   }
 
+  // Resolve options
+  const matchType = options?.matchType ?? 'exact';
+  const limit = options?.limit ?? Infinity;
+  const types = options?.types?.length
+    ? new Set<string>(options.types)
+    : undefined;
+
   // Normalize search string
   const lookup = search.normalize();
 
+  // Convert romaji input to kana candidates, if requested
+  const romajiCandidates =
+    options?.romaji && isRomaji(lookup) ? romajiToKana(lookup) : undefined;
+
   // Set up our output value.
+  //
+  // For each record we record the length of the shortest matching headword so
+  // we can sort exact matches first followed by shorter matches.
   const addedRecords: Set<number> = new Set();
   const result: Array<NameResult> = [];
+  const matchLengths: Map<number, number> = new Map();
+
+  const maybeAddRecord = (record: NameStoreRecord, term: string) => {
+    if (addedRecords.has(record.id)) {
+      return;
+    }
+
+    if (
+      types &&
+      !record.tr.some((tr) => tr.type?.some((type) => types.has(type)))
+    ) {
+      return;
+    }
+
+    const hiragana = kanaToHiragana(term);
+    const headwords = [...(record.k || []), ...record.r];
+    const matchLength = Math.min(
+      ...headwords
+        .filter(
+          (headword) =>
+            headword.startsWith(term) ||
+            kanaToHiragana(headword).startsWith(hiragana)
+        )
+        .map((headword) => headword.length)
+    );
 
-  const maybeAddRecord = (record: NameStoreRecord) => {
-    if (!addedRecords.has(record.id)) {
-      result.push(stripFields(record, ['h']));
-      addedRecords.add(record.id);
+    const nameResult: NameResult = stripFields(record, ['h', 'tt']);
+    if (romajiCandidates) {
+      nameResult.romajiMatch = term;
     }
+    result.push(nameResult);
+    addedRecords.add(record.id);
+    matchLengths.set(record.id, matchLength);
   };
 
-  // Try the k (kanji) index first
-  const kanjiIndex = db!.transaction('names').store.index('k');
-  // (We explicitly use IDBKeyRange.only because otherwise the idb TS typings
-  // fail to recognize that these indices are multi-entry and hence it is
-  // valid to supply a single string instead of an array of strings.)
-  for await (const cursor of kanjiIndex.iterate(IDBKeyRange.only(lookup))) {
-    maybeAddRecord(cursor.value);
+  const getKey = (term: string) =>
+    matchType === 'exact'
+      ? IDBKeyRange.only(term)
+      : IDBKeyRange.bound(term, term + '\uFFFF');
+
+  if (romajiCandidates) {
+    // For romaji we only need to look up each of the kana candidates in the
+    // hiragana index.
+    const hiraganaIndex = db!.transaction('names').store.index('h');
+    for (const hiragana of romajiCandidates) {
+      for await (const cursor of hiraganaIndex.iterate(getKey(hiragana))) {
+        maybeAddRecord(cursor.value, hiragana);
+      }
+    }
+  } else {
+    // Try the k (kanji) index first
+    const kanjiIndex = db!.transaction('names').store.index('k');
+    // (We explicitly use IDBKeyRange.only because otherwise the idb TS typings
+    // fail to recognize that these indices are multi-entry and hence it is
+    // valid to supply a single string instead of an array of strings.)
+    for await (const cursor of kanjiIndex.iterate(getKey(lookup))) {
+      maybeAddRecord(cursor.value, lookup);
+    }
+
+    // Then the r (reading) index
+    const readingIndex = db!.transaction('names').store.index('r');
+    for await (const cursor of readingIndex.iterate(getKey(lookup))) {
+      maybeAddRecord(cursor.value, lookup);
+    }
+
+    // Then finally try converting to hiragana and using the hiragana index
+    const hiraganaIndex = db!.transaction('names').store.index('h');
+    const hiragana = kanaToHiragana(lookup);
+    for await (const cursor of hiraganaIndex.iterate(getKey(hiragana))) {
+      maybeAddRecord(cursor.value, hiragana);
+    }
+  }
+
+  // Sort exact matches first, then by length. Since Array.prototype.sort is
+  // stable, matches of the same length retain their index order.
+  result.sort((a, b) => matchLengths.get(a.id)! - matchLengths.get(b.id)!);
+
+  if (limit) {
+    result.splice(limit);
+  }
+
+  return result;
+}
+
+// Looks up names with a translation that matches `search`.
+//
+// If `limit` is not set, at most 100 results are returned.
+export async function getNamesWithTranslation(
+  search: string,
+  limit?: number
+): Promise<Array<NameResult>> {
+  const db = await open();
+  if (!db) {
+    return [];
   }
 
-  // Then the r (reading) index
-  const readingIndex = db!.transaction('names').store.index('r');
-  for await (const cursor of readingIndex.iterate(IDBKeyRange.only(lookup))) {
-    maybeAddRecord(cursor.value);
+  // Get search tokens
+  //
+  // The names dictionary is only available in English.
+  const locale = 'en';
+  const term = search.normalize();
+  const tokens = getTokens(term, locale);
+  if (!tokens.length) {
+    return [];
   }
 
-  // Then finally try converting to hiragana and using the hiragana index
-  const hiraganaIndex = db!.transaction('names').store.index('h');
-  const hiragana = kanaToHiragana(lookup);
-  for await (const cursor of hiraganaIndex.iterate(
-    IDBKeyRange.only(hiragana)
+  // Prepare lowercase version of the term for later substring matching
+  const termLower = term.toLocaleLowerCase(locale);
+
+  // Look for any records matching the first token
+  const actualLimit = Math.max(limit || 0, 0) || 100;
+  const numCandidates = Math.max(actualLimit, 50);
+  const results: Array<NameResult> = [];
+  const confidences: Map<number, number> = new Map();
+
+  // Since the index is multi-entry, a record with several tokens that match
+  // the prefix (e.g. "naka" and "nakamachi") will be visited more than once.
+  const visited: Set<number> = new Set();
+
+  const translationIndex = db!.transaction('names').store.index('tt');
+  let hasFullMatchOnFirstToken = false;
+  for await (const cursor of translationIndex.iterate(
+    // Prefix match on first token
+    IDBKeyRange.bound(tokens[0], tokens[0] + '\uFFFF')
   )) {
-    maybeAddRecord(cursor.value);
+    const record = cursor.value;
+    if (visited.has(record.id)) {
+      continue;
+    }
+    visited.add(record.id);
+
+    // As with lookUpGlosses, if we have multiple tokens and completely match
+    // the first token, we should not add any substring matches on that token.
+    const fullMatchOnFirstToken =
+      tokens.length > 1 && record.tt.includes(tokens[0]!);
+    if (!fullMatchOnFirstToken && hasFullMatchOnFirstToken) {
+      break;
+    }
+    hasFullMatchOnFirstToken = fullMatchOnFirstToken;
+
+    // Look for a substring match in each translation
+    const matchRanges: NonNullable<NameResult['matchRanges']> = [];
+    let confidence = 0;
+    for (const [trIndex, tr] of record.tr.entries()) {
+      for (const [detIndex, det] of tr.det.entries()) {
+        const substringStart = det.toLocaleLowerCase(locale).indexOf(termLower);
+        if (substringStart === -1) {
+          continue;
+        }
+
+        matchRanges.push([
+          trIndex,
+          detIndex,
+          substringStart,
+          substringStart + term.length,
+        ]);
+        confidence = Math.max(
+          confidence,
+          getMatchConfidence({
+            term,
+            tokens,
+            text: det,
+            locale,
+            recordTokens: record.tt,
+          })
+        );
+      }
+    }
+
+    if (matchRanges.length) {
+      results.push({ ...stripFields(record, ['h', 'tt']), matchRanges });
+      confidences.set(record.id, confidence);
+    }
+
+    if (results.length >= numCandidates) {
+      break;
+    }
   }
 
-  return result;
+  results.sort((a, b) => confidences.get(b.id)! - confidences.get(a.id)!);
+
+  return results.slice(0, actualLimit);
 }
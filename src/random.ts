@@ -0,0 +1,33 @@
+// Returns a function that generates numbers in the range [0, 1).
+//
+// If `seed` is provided, the sequence of numbers is reproducible (using the
+// mulberry32 algorithm). Otherwise Math.random is used.
+export function getRandomGenerator(seed?: number): () => number {
+  if (typeof seed === 'undefined') {
+    return Math.random;
+  }
+
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Picks `count` items from `items` at random (without replacement)
+export function sample<T>(
+  items: Array<T>,
+  count: number,
+  random: () => number
+): Array<T> {
+  const result = items.slice();
+  const length = Math.min(count, result.length);
+  for (let i = 0; i < length; i++) {
+    const j = i + Math.floor(random() * (result.length - i));
+    [result[i], result[j]] = [result[j]!, result[i]!];
+  }
+  return result.slice(0, length);
+}
@@ -1,7 +1,14 @@
+import type { Reason } from './deinflect.js';
 import type { KanjiMiscInfo, KanjiReading } from './kanji.js';
 import type { NameRecord } from './names.js';
 import type { Overwrite, Resolve } from './type-helpers.js';
-import type { GlossType, KanjiMeta, ReadingMeta, WordSense } from './words.js';
+import type {
+  CrossReference,
+  GlossType,
+  KanjiMeta,
+  ReadingMeta,
+  WordSense,
+} from './words.js';
 
 // -------------------------------------------------------------------------
 //
@@ -14,8 +21,43 @@ export type WordResult = {
   k: Array<ExtendedKanjiEntry>;
   r: Array<ExtendedKanaEntry>;
   s: Array<ExtendedSense>;
+  // Set when the result was found by deinflecting the search string.
+  //
+  // Each chain lists the inflections that produce the search string from the
+  // matched headword, starting with the one closest to the dictionary form.
+  reasonChains?: Array<Array<Reason>>;
+  // Set when the search was performed using romaji and indicates the kana
+  // conversion of the input that matched.
+  romajiMatch?: string;
 };
 
+export type WordsByIdsResult = {
+  // The words found, in the order the IDs were requested
+  words: Array<WordResult>;
+  // The IDs that were not found (e.g. because the entry was removed when the
+  // database was updated)
+  missing: Array<number>;
+};
+
+export type WordReferenceResult = {
+  // The word containing the references. Only the senses containing
+  // references to the target word are marked as matching.
+  word: WordResult;
+  references: Array<{
+    type: 'xref' | 'ant';
+    // The index of the sense in `word` containing the reference
+    sense: number;
+    // The index of the sense of the target word being referred to, if the
+    // reference is to a specific sense
+    targetSense?: number;
+    ref: CrossReference;
+  }>;
+};
+
+export type ScanTextResult =
+  | { type: 'words'; matchLength: number; words: Array<WordResult> }
+  | { type: 'names'; matchLength: number; names: Array<NameResult> };
+
 export type ExtendedKanjiEntry = Resolve<
   {
     ent: string;
@@ -137,10 +179,43 @@ export type RelatedKanji = {
   misc: KanjiMiscInfo;
 };
 
+export type KanjiVariant = RelatedKanji & {
+  // Where the relationship is recorded in the kanji data:
+  //
+  // - listed: this kanji is listed as a variant of the kanji that was looked up
+  // - reverse: the kanji that was looked up is listed as a variant of this
+  //   kanji
+  //
+  // (The data does not record which of the two is the old or new form.)
+  source: 'listed' | 'reverse';
+};
+
+export type SimilarKanji = RelatedKanji & {
+  // A value between 0 and 1 indicating how similar the kanji looks
+  score: number;
+};
+
+export type KanjiComponentSearchResult = {
+  // Kanji containing all the searched-for components sorted by stroke count
+  // (and then by frequency)
+  kanji: Array<{ c: string; sc: number }>;
+  // The other components that appear in the matching kanji
+  nextComponents: Array<string>;
+};
+
 // -------------------------------------------------------------------------
 //
 // Names
 //
 // -------------------------------------------------------------------------
 
-export type NameResult = NameRecord;
+export type NameResult = NameRecord & {
+  // Set when searching by translation text and indicates the range of
+  // characters that matched in each matching translation.
+  matchRanges?: Array<
+    [translation: number, det: number, start: number, end: number]
+  >;
+  // Set when the search was performed using romaji and indicates the kana
+  // conversion of the input that matched.
+  romajiMatch?: string;
+};
@@ -0,0 +1,22 @@
+import { assert, describe, it } from 'vitest';
+
+import { romajiToKana } from './romaji.js';
+
+describe('romajiToKana', () => {
+  it('should convert nn before a vowel to ん and a な-row syllable', () => {
+    assert.deepEqual(romajiToKana('konnichiha'), ['こんにちは']);
+    assert.deepEqual(romajiToKana('onna'), ['おんな']);
+    assert.deepEqual(romajiToKana('konnyaku'), ['こんにゃく']);
+  });
+
+  it('should convert nn elsewhere to a single ん', () => {
+    assert.deepEqual(romajiToKana('hannnou'), ['はんのう']);
+    assert.deepEqual(romajiToKana('ginnkou'), ['ぎんこう']);
+    assert.deepEqual(romajiToKana('honn'), ['ほん']);
+  });
+
+  it('should not guess omitted long vowels', () => {
+    assert.deepEqual(romajiToKana('tokyo'), ['ときょ']);
+    assert.includeMembers(romajiToKana('tōkyō'), ['とうきょう']);
+  });
+});
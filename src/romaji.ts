@@ -0,0 +1,196 @@
+// Conversion of romaji input into kana.
+//
+// This accepts Hepburn (e.g. shi, tsu, shimbun), Kunrei (e.g. si, tu, zya)
+// and wāpuro-style (e.g. nn, xtu, ltsu, ou) romaji.
+//
+// Since romaji is ambiguous (e.g. "kinen" could be きねん or きんえん, and "ō"
+// could be おう or おお) we return all plausible conversions, starting with the
+// most likely.
+//
+// Long vowels must be written out (e.g. toukyou) or marked with a macron or
+// circumflex (e.g. Tōkyō). We don't try to guess where long vowels have been
+// omitted (e.g. "tokyo" only produces ときょ, not とうきょう) since nearly every
+// o and u would double the number of candidates.
+
+// Limit the number of candidates we return since ambiguous sequences can
+// multiply quickly.
+const MAX_CANDIDATES = 8;
+
+export function isRomaji(input: string): boolean {
+  return (
+    /^[a-z'\-āīūēōâîûêô ]+$/i.test(input) && /[a-zāīūēōâîûêô]/i.test(input)
+  );
+}
+
+// Returns the hiragana candidates for `input` or an empty array if the input
+// could not be converted.
+export function romajiToKana(input: string): Array<string> {
+  const normalized = input.toLowerCase().replace(/ /g, '');
+
+  const result: Set<string> = new Set();
+  for (const expanded of expandLongVowels(normalized)) {
+    for (const kana of parse(expanded)) {
+      result.add(kana);
+    }
+  }
+
+  return [...result].slice(0, MAX_CANDIDATES);
+}
+
+// Long vowels written with a macron or circumflex (e.g. Tōkyō) could represent
+// either a repeated vowel or (for ō and ē) a following う or い.
+const longVowels: Record<string, Array<string>> = {
+  ā: ['aa'],
+  â: ['aa'],
+  ī: ['ii'],
+  î: ['ii'],
+  ū: ['uu'],
+  û: ['uu'],
+  ē: ['ei', 'ee'],
+  ê: ['ei', 'ee'],
+  ō: ['ou', 'oo'],
+  ô: ['ou', 'oo'],
+};
+
+function expandLongVowels(input: string): Array<string> {
+  let result = [''];
+  for (const c of input) {
+    const expansions = longVowels[c] || [c];
+    result = result
+      .flatMap((prefix) => expansions.map((expansion) => prefix + expansion))
+      .slice(0, MAX_CANDIDATES);
+  }
+  return result;
+}
+
+function parse(input: string): Array<string> {
+  // Candidates for the remainder of the input starting at each position
+  const memo: Map<number, Array<string>> = new Map();
+
+  const parseFrom = (i: number): Array<string> => {
+    if (i >= input.length) {
+      return [''];
+    }
+
+    const cached = memo.get(i);
+    if (cached) {
+      return cached;
+    }
+
+    const result: Array<string> = [];
+    const add = (kana: string, next: number) => {
+      for (const rest of parseFrom(next)) {
+        if (result.length < MAX_CANDIDATES) {
+          result.push(kana + rest);
+        }
+      }
+    };
+
+    const c = input[i]!;
+    const next = input[i + 1];
+
+    if (c === 'n') {
+      // Explicit ん (e.g. kin'en, or wāpuro-style nn)
+      if (next === "'") {
+        add('ん', i + 2);
+      } else if (next === 'n') {
+        // If nn is followed by a vowel or y, the second n starts a な-row
+        // syllable (e.g. Hepburn "konna" for こんな, "konnichiwa" for
+        // こんにちわ). Otherwise it is wāpuro-style ん (e.g. "hannnou").
+        const after = input[i + 2];
+        if (after && 'aiueoy'.includes(after)) {
+          addSyllable(i + 1, (kana, next) => add('ん' + kana, next));
+        } else {
+          add('ん', i + 2);
+        }
+      } else if (next && 'aiueoy'.includes(next)) {
+        // n followed by a vowel could be a な-row syllable or ん followed by
+        // a vowel (e.g. きねん vs きんえん)
+        //
+        // If the preceding n was ん, however, we don't expect another ん
+        // (e.g. "hannnou" is はんのう, not はんんおう).
+        addSyllable(i, add);
+        if (input[i - 1] !== 'n') {
+          add('ん', i + 1);
+        }
+      } else {
+        add('ん', i + 1);
+      }
+    } else if (c === 'm' && next && 'bmp'.includes(next)) {
+      // Hepburn writes ん as m before b, m, and p (e.g. shimbun)
+      add('ん', i + 1);
+    } else if (next === c && !'aiueo'.includes(c) && /[a-z]/.test(c)) {
+      // Doubled consonants (e.g. kitte)
+      add('っ', i + 1);
+    } else if (c === 't' && input.startsWith('ch', i + 1)) {
+      // Hepburn っち (e.g. matcha)
+      add('っ', i + 1);
+    } else {
+      addSyllable(i, add);
+    }
+
+    memo.set(i, result);
+    return result;
+  };
+
+  const addSyllable = (
+    i: number,
+    add: (kana: string, next: number) => void
+  ) => {
+    // Use the longest matching syllable
+    for (let length = 4; length > 0; length--) {
+      const kana = syllables[input.slice(i, i + length)];
+      if (kana) {
+        add(kana, i + length);
+        return;
+      }
+    }
+  };
+
+  return parseFrom(0);
+}
+
+// prettier-ignore
+const syllables: Record<string, string> = {
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ',
+  kya: 'きゃ', kyu: 'きゅ', kye: 'きぇ', kyo: 'きょ',
+  ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+  gya: 'ぎゃ', gyu: 'ぎゅ', gye: 'ぎぇ', gyo: 'ぎょ',
+  sa: 'さ', si: 'し', shi: 'し', su: 'す', se: 'せ', so: 'そ',
+  sya: 'しゃ', syu: 'しゅ', sye: 'しぇ', syo: 'しょ',
+  sha: 'しゃ', shu: 'しゅ', she: 'しぇ', sho: 'しょ',
+  za: 'ざ', zi: 'じ', ji: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  zya: 'じゃ', zyu: 'じゅ', zye: 'じぇ', zyo: 'じょ',
+  ja: 'じゃ', ju: 'じゅ', je: 'じぇ', jo: 'じょ',
+  jya: 'じゃ', jyu: 'じゅ', jye: 'じぇ', jyo: 'じょ',
+  ta: 'た', ti: 'ち', chi: 'ち', tu: 'つ', tsu: 'つ', te: 'て', to: 'と',
+  tya: 'ちゃ', tyu: 'ちゅ', tye: 'ちぇ', tyo: 'ちょ',
+  cha: 'ちゃ', chu: 'ちゅ', che: 'ちぇ', cho: 'ちょ',
+  cya: 'ちゃ', cyu: 'ちゅ', cye: 'ちぇ', cyo: 'ちょ',
+  da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど',
+  dya: 'ぢゃ', dyu: 'ぢゅ', dyo: 'ぢょ',
+  na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  nya: 'にゃ', nyu: 'にゅ', nye: 'にぇ', nyo: 'にょ',
+  ha: 'は', hi: 'ひ', hu: 'ふ', fu: 'ふ', he: 'へ', ho: 'ほ',
+  hya: 'ひゃ', hyu: 'ひゅ', hye: 'ひぇ', hyo: 'ひょ',
+  fa: 'ふぁ', fi: 'ふぃ', fe: 'ふぇ', fo: 'ふぉ',
+  ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  bya: 'びゃ', byu: 'びゅ', bye: 'びぇ', byo: 'びょ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ',
+  pya: 'ぴゃ', pyu: 'ぴゅ', pye: 'ぴぇ', pyo: 'ぴょ',
+  ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  mya: 'みゃ', myu: 'みゅ', mye: 'みぇ', myo: 'みょ',
+  ya: 'や', yu: 'ゆ', yo: 'よ',
+  ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+  rya: 'りゃ', ryu: 'りゅ', rye: 'りぇ', ryo: 'りょ',
+  wa: 'わ', wi: 'うぃ', we: 'うぇ', wo: 'を',
+  va: 'ゔぁ', vi: 'ゔぃ', vu: 'ゔ', ve: 'ゔぇ', vo: 'ゔぉ',
+  // Wāpuro-style small kana
+  xa: 'ぁ', xi: 'ぃ', xu: 'ぅ', xe: 'ぇ', xo: 'ぉ',
+  la: 'ぁ', li: 'ぃ', lu: 'ぅ', le: 'ぇ', lo: 'ぉ',
+  xya: 'ゃ', xyu: 'ゅ', xyo: 'ょ', lya: 'ゃ', lyu: 'ゅ', lyo: 'ょ',
+  xtu: 'っ', xtsu: 'っ', ltu: 'っ', ltsu: 'っ', xwa: 'ゎ', lwa: 'ゎ',
+  // Wāpuro-style long vowel mark
+  '-': 'ー',
+};
@@ -0,0 +1,263 @@
+import * as s from 'superstruct';
+
+import type { DataSeries } from './data-series.js';
+import { allDataSeries } from './data-series.js';
+import { DownloadError } from './download-error.js';
+import { validateDownloadRecord } from './download-types.js';
+import { createGzipDecompressionStream } from './gunzip.js';
+import { ljsonStreamIterator } from './ljson-stream.js';
+import type { JpdictStore, RecordUpdate } from './store.js';
+import { safeInteger } from './validation-helpers.js';
+
+// A snapshot is an ljson file consisting of a header line followed by one line
+// for each record in the series, in the same format as the records in a full
+// data file, e.g.
+//
+//   {"type":"snapshot","format":1,"series":"radicals","version":{...},"records":1}
+//   {"id":"001","r":1,"b":"⼀","k":"一","s":1,"na":["いち"],"m":["one"]}
+//
+// Snapshots may optionally be gzipped.
+
+const SNAPSHOT_FORMAT = 1;
+
+// Since we can't identify a snapshot by its URL, we use this in place of the
+// URL in any errors.
+const SNAPSHOT_URL = 'snapshot';
+
+const READ_TIMEOUT = 20_000;
+
+// The number of records to write to the store at a time
+const BATCH_SIZE = 4000;
+
+const SnapshotHeaderStruct = s.type({
+  type: s.literal('snapshot'),
+  format: s.literal(SNAPSHOT_FORMAT),
+  series: s.enums(allDataSeries),
+  version: s.type({
+    major: s.min(safeInteger(), 1),
+    minor: s.min(safeInteger(), 0),
+    patch: s.min(safeInteger(), 0),
+    partInfo: s.optional(
+      s.type({ part: s.min(safeInteger(), 1), parts: s.min(safeInteger(), 1) })
+    ),
+    databaseVersion: s.optional(s.string()),
+    dateOfCreation: s.nonempty(s.string()),
+    lang: s.nonempty(s.string()),
+  }),
+  records: s.min(safeInteger(), 0),
+});
+
+export type SnapshotHeader = s.Infer<typeof SnapshotHeaderStruct>;
+
+export async function exportSnapshot({
+  store,
+  series,
+  compress = false,
+}: {
+  store: JpdictStore;
+  series: DataSeries;
+  compress?: boolean;
+}): Promise<ReadableStream<Uint8Array>> {
+  const version = await store.getDataVersion(series);
+  if (!version) {
+    throw new Error(`No '${series}' data to export`);
+  }
+
+  const header: SnapshotHeader = {
+    type: 'snapshot',
+    format: SNAPSHOT_FORMAT,
+    series,
+    version,
+    records: await store.getRecordCount(series),
+  };
+
+  const lines = (async function* () {
+    yield JSON.stringify(header) + '\n';
+    let recordCount = 0;
+    for await (const record of store.getRecords(series)) {
+      yield JSON.stringify(record) + '\n';
+      recordCount++;
+    }
+
+    // Since the records are read in separate transactions, the series could
+    // have been modified while we were reading it. Fail rather than producing
+    // a snapshot that can't be restored.
+    if (recordCount !== header.records) {
+      throw new Error(
+        `Expected ${header.records} '${series}' record(s) but read ${recordCount}. Was the series updated during the export?`
+      );
+    }
+  })();
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await lines.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(value));
+      }
+    },
+    async cancel() {
+      await lines.return(undefined);
+    },
+  });
+
+  // If CompressionStream is not available, we return the snapshot
+  // uncompressed. `restoreSnapshot` accepts either form.
+  //
+  // (The cast here is needed because the DOM typings for CompressionStream
+  // take a BufferSource which TS won't allow us to pipe a Uint8Array into.)
+  return compress && typeof CompressionStream !== 'undefined'
+    ? (stream as ReadableStream<BufferSource>).pipeThrough(
+        new CompressionStream('gzip')
+      )
+    : stream;
+}
+
+// Replaces the data for the series in the snapshot with the snapshot's
+// records.
+//
+// `onHeader` is called once the header has been read but before any data is
+// modified so that the caller can check the snapshot is suitable (throwing if
+// it is not) and prepare for the series to be replaced.
+export async function restoreSnapshot({
+  stream,
+  store,
+  signal,
+  onHeader,
+}: {
+  stream: ReadableStream<Uint8Array>;
+  store: JpdictStore;
+  signal: AbortSignal;
+  onHeader: (header: SnapshotHeader) => void | Promise<void>;
+}): Promise<SnapshotHeader> {
+  let header: SnapshotHeader | undefined;
+  let recordCount = 0;
+  let updates: Array<RecordUpdate<DataSeries>> = [];
+
+  try {
+    for await (const line of ljsonStreamIterator({
+      stream: await decompressIfNeeded(stream),
+      signal,
+      timeout: READ_TIMEOUT,
+      url: SNAPSHOT_URL,
+    })) {
+      if (!header) {
+        const [error, parsedHeader] = s.validate(line, SnapshotHeaderStruct);
+        if (error) {
+          throw new DownloadError(
+            { code: 'DatabaseFileHeaderMissing', url: SNAPSHOT_URL },
+            `Invalid snapshot header: ${error.message}`,
+            { cause: error }
+          );
+        }
+
+        await onHeader(parsedHeader);
+        header = parsedHeader;
+
+        await store.clearSeries(header.series);
+        continue;
+      }
+
+      const [error, record] = validateDownloadRecord({
+        series: header.series,
+        record: line,
+      });
+      if (error) {
+        throw new DownloadError(
+          { code: 'DatabaseFileInvalidRecord', url: SNAPSHOT_URL },
+          `Invalid record in snapshot: ${error.message}`,
+          { cause: error }
+        );
+      }
+
+      updates.push({ mode: 'add', record });
+      recordCount++;
+
+      if (updates.length >= BATCH_SIZE) {
+        await store.updateSeries({
+          series: header.series,
+          updates,
+          lang: header.version.lang,
+        });
+        updates = [];
+      }
+    }
+
+    if (!header) {
+      throw new DownloadError(
+        { code: 'DatabaseFileHeaderMissing', url: SNAPSHOT_URL },
+        'Expected snapshot header but got end of stream'
+      );
+    }
+
+    if (recordCount !== header.records) {
+      throw new DownloadError(
+        { code: 'DatabaseFileInvalidRecord', url: SNAPSHOT_URL },
+        `Expected ${header.records} record(s) in snapshot but got ${recordCount}`
+      );
+    }
+
+    if (updates.length) {
+      await store.updateSeries({
+        series: header.series,
+        updates,
+        lang: header.version.lang,
+      });
+    }
+
+    await store.updateDataVersion({
+      series: header.series,
+      version: header.version,
+    });
+  } catch (e) {
+    // Don't leave a partially restored series lying around
+    if (header) {
+      await store.clearSeries(header.series);
+    }
+
+    throw e;
+  }
+
+  return header;
+}
+
+async function decompressIfNeeded(
+  stream: ReadableStream<Uint8Array>
+): Promise<ReadableStream<Uint8Array>> {
+  // Read the first chunk so we can check for the gzip magic number
+  const reader = stream.getReader();
+  const first = await reader.read();
+
+  const result = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(first.value);
+      }
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  const isGzipped =
+    !first.done && first.value[0] === 0x1f && first.value[1] === 0x8b;
+
+  return isGzipped
+    ? (result as ReadableStream<BufferSource>).pipeThrough(
+        createGzipDecompressionStream()
+      )
+    : result;
+}
@@ -1,5 +1,7 @@
 import { kanaToHiragana } from '@birchill/normal-jp';
 
+import { parse as parseComponents } from '@birchill/kanji-component-string-utils';
+
 import type {
   KanjiDownloadDeleteRecord,
   KanjiDownloadRecord,
@@ -12,6 +14,7 @@ import type {
 } from './download-types.js';
 import { hasHiragana } from './japanese.js';
 import type { Overwrite } from './type-helpers.js';
+import { stripFields } from './utils.js';
 import type { KanjiMeta, ReadingMeta } from './words.js';
 
 // ----------------------------------------------------------------------------
@@ -30,6 +33,15 @@ export type WordStoreRecord = Overwrite<
 
     // r and k strings with all kana converted to hiragana
     h: Array<string>;
+    // r and k strings with all kana converted to hiragana and the characters
+    // reversed (for suffix matching)
+    hr: Array<string>;
+    // The k and r of each cross-reference and antonym (for looking up the
+    // words that refer to a given word)
+    xr: Array<string>;
+    // The language and (lowercased) source term of each language source in the
+    // form `${lang}:${src}` (for looking up loanwords)
+    ls: Array<string>;
     // Individual from k split out into separate strings
     kc: Array<string>;
     // Gloss tokens (English and localized)
@@ -48,6 +60,9 @@ export function toWordStoreRecord(record: WordDownloadRecord): WordStoreRecord {
       ? record.km.map((elem) => (elem === 0 ? null : elem))
       : undefined,
     h: keysToHiragana([...(record.k || []), ...record.r]),
+    hr: getReversedHeadwords(record),
+    xr: getCrossReferenceKeys(record),
+    ls: getLanguageSourceKeys(record),
     kc: [],
     gt_en: [],
     gt_l: [],
@@ -67,6 +82,70 @@ export function toWordStoreRecord(record: WordDownloadRecord): WordStoreRecord {
   return result;
 }
 
+// Reverses toWordStoreRecord (e.g. for exporting records)
+export function toWordDownloadRecord(
+  record: WordStoreRecord
+): WordDownloadRecord {
+  const result: WordDownloadRecord = {
+    ...stripFields(record, ['h', 'hr', 'xr', 'ls', 'kc', 'gt_en', 'gt_l']),
+    rm: record.rm ? record.rm.map((elem) => elem || 0) : undefined,
+    km: record.km ? record.km.map((elem) => elem || 0) : undefined,
+  };
+
+  if (!result.rm) {
+    delete result.rm;
+  }
+  if (!result.km) {
+    delete result.km;
+  }
+
+  return result;
+}
+
+function getReversedHeadwords(
+  record: Pick<WordDownloadRecord, 'k' | 'r'>
+): Array<string> {
+  return Array.from(
+    new Set(
+      [...(record.k || []), ...record.r].map((value) =>
+        [...kanaToHiragana(value)].reverse().join('')
+      )
+    )
+  );
+}
+
+function getCrossReferenceKeys(
+  record: Pick<WordDownloadRecord, 's'>
+): Array<string> {
+  const result: Set<string> = new Set();
+  for (const sense of record.s) {
+    for (const xref of [...(sense.xref || []), ...(sense.ant || [])]) {
+      for (const key of [(xref as any).k, (xref as any).r]) {
+        if (key) {
+          result.add((key as string).normalize());
+        }
+      }
+    }
+  }
+  return [...result];
+}
+
+function getLanguageSourceKeys(
+  record: Pick<WordDownloadRecord, 's'>
+): Array<string> {
+  const result: Set<string> = new Set();
+  for (const sense of record.s) {
+    for (const lsrc of sense.lsrc || []) {
+      result.add(toLanguageSourceKey(lsrc.lang || 'en', lsrc.src || ''));
+    }
+  }
+  return [...result];
+}
+
+export function toLanguageSourceKey(lang: string, src: string): string {
+  return `${lang}:${src.normalize().toLowerCase()}`;
+}
+
 export function getStoreIdForWordRecord(
   record: WordDownloadRecord | WordDownloadDeleteRecord
 ): number {
@@ -82,10 +161,22 @@ export function getStoreIdForWordRecord(
 export type NameStoreRecord = NameDownloadRecord & {
   // r and k strings with all kana converted to hiragana
   h: Array<string>;
+  // Translation tokens
+  tt: Array<string>;
 };
 
 export function toNameStoreRecord(entry: NameDownloadRecord): NameStoreRecord {
-  return { ...entry, h: keysToHiragana([...(entry.k || []), ...entry.r]) };
+  return {
+    ...entry,
+    h: keysToHiragana([...(entry.k || []), ...entry.r]),
+    tt: [],
+  };
+}
+
+export function toNameDownloadRecord(
+  record: NameStoreRecord
+): NameDownloadRecord {
+  return stripFields(record, ['h', 'tt']);
 }
 
 export function getStoreIdForNameRecord(
@@ -105,13 +196,62 @@ export type KanjiStoreRecord = Overwrite<
   {
     // Define a variant on KanjiEntryLine that turns 'c' into a number
     c: number;
+    // Individual characters from comp (including any sub-components) split
+    // out into separate strings
+    cc: Array<string>;
+    // Meaning tokens
+    mt: Array<string>;
+    // Split out var into separate characters so we can index them
+    var?: Array<string>;
   }
 >;
 
 export function toKanjiStoreRecord(
   record: KanjiDownloadRecord
 ): KanjiStoreRecord {
-  return { ...record, c: record.c.codePointAt(0) as number };
+  const result: KanjiStoreRecord = {
+    ...record,
+    c: record.c.codePointAt(0) as number,
+    cc: getComponentCharacters(record.comp),
+    mt: [],
+    var: record.var ? [...record.var] : undefined,
+  };
+
+  // As with words, drop the property if it is undefined
+  if (!result.var) {
+    delete result.var;
+  }
+
+  return result;
+}
+
+export function toKanjiDownloadRecord(
+  record: KanjiStoreRecord
+): KanjiDownloadRecord {
+  const result: KanjiDownloadRecord = {
+    ...stripFields(record, ['cc', 'mt']),
+    c: String.fromCodePoint(record.c),
+    var: record.var ? record.var.join('') : undefined,
+  };
+
+  if (!result.var) {
+    delete result.var;
+  }
+
+  return result;
+}
+
+export function getComponentCharacters(
+  comp: string | undefined
+): Array<string> {
+  const result: Set<string> = new Set();
+  for (const component of comp ? parseComponents(comp) : []) {
+    result.add(component.c);
+    for (const sub of component.sub || []) {
+      result.add(sub.c);
+    }
+  }
+  return [...result];
 }
 
 export function getStoreIdForKanjiRecord(
@@ -134,6 +274,12 @@ export function toRadicalStoreRecord(
   return record;
 }
 
+export function toRadicalDownloadRecord(
+  record: RadicalStoreRecord
+): RadicalDownloadRecord {
+  return record;
+}
+
 export function getStoreIdForRadicalRecord(
   record: RadicalDownloadRecord | RadicalDownloadDeleteRecord
 ): string {
@@ -1,5 +1,7 @@
+import { openDB } from 'idb';
 import { assert, describe, it } from 'vitest';
 
+import { JpdictFullTextDatabase } from './database-fulltext.js';
 import { JpdictStore } from './store.js';
 
 describe('store', () => {
@@ -37,6 +39,7 @@ describe('store', () => {
     await store.open();
     await store.updateSeries({
       series: 'kanji',
+      lang: 'en',
       updates: [
         {
           mode: 'add',
@@ -77,4 +80,95 @@ describe('store', () => {
     // Tidy up
     await store.destroy();
   });
+
+  it('should drop series with new indexes when upgrading from version 4', async () => {
+    const oldDb = await openVersion4Database();
+    await oldDb.put('kanji', {
+      c: 0x5b66,
+      r: {},
+      m: ['study', 'learning'],
+      rad: { x: 39 },
+      refs: {},
+      misc: { sc: 8 },
+      var: '學斈',
+    });
+    await oldDb.put('radicals', { id: '039', r: 39, b: '⼦', k: '子', na: [] });
+    await oldDb.put('names', {
+      id: 1657560,
+      k: ['国労'],
+      r: ['こくろう'],
+      tr: [{ type: ['org'], det: ["National Railway Workers' Union"] }],
+      h: ['こくろう'],
+    });
+    await oldDb.put('words', {
+      id: 1358280,
+      k: ['食べる', '喰べる'],
+      r: ['たべる'],
+      s: [],
+      h: ['食べる', '喰べる', 'たべる'],
+      kc: [],
+      gt_en: [],
+      gt_l: [],
+    });
+    for (const id of [1, 2, 3, 4]) {
+      await oldDb.put('version', {
+        id,
+        major: 4,
+        minor: 0,
+        patch: 0,
+        dateOfCreation: '2019-07-09',
+        lang: 'en',
+      });
+    }
+    oldDb.close();
+
+    const store = new JpdictStore();
+    await store.open();
+
+    // The series should be cleared so that the next update fills in the new
+    // indexes.
+    assert.equal(await store.getRecordCount('kanji'), 0);
+    assert.equal(await store.getRecordCount('words'), 0);
+    assert.isNull(await store.getDataVersion('kanji'));
+    assert.isNull(await store.getDataVersion('words'));
+
+    // But radicals should be left alone, as should names since this store
+    // doesn't index their translations.
+    assert.equal(await store.getRecordCount('radicals'), 1);
+    assert.isNotNull(await store.getDataVersion('radicals'));
+    assert.equal(await store.getRecordCount('names'), 1);
+    assert.isNotNull(await store.getDataVersion('names'));
+
+    await store.destroy();
+  });
+
+  it('should drop names when upgrading a full-text database from version 4', async () => {
+    const oldDb = await openVersion4Database();
+    await oldDb.put('names', {
+      id: 1657560,
+      k: ['国労'],
+      r: ['こくろう'],
+      tr: [{ type: ['org'], det: ["National Railway Workers' Union"] }],
+      h: ['こくろう'],
+    });
+    oldDb.close();
+
+    const db = new JpdictFullTextDatabase();
+    await db.ready;
+    assert.equal(await db.store.getRecordCount('names'), 0);
+
+    await db.destroy();
+  });
 });
+
+function openVersion4Database() {
+  return openDB('jpdict', 4, {
+    upgrade(db) {
+      db.createObjectStore('kanji', { keyPath: 'c' });
+      db.createObjectStore('radicals', { keyPath: 'id' });
+      db.createObjectStore('names', { keyPath: 'id' });
+      db.createObjectStore('version', { keyPath: 'id' });
+      db.createObjectStore('words', { keyPath: 'id' });
+    },
+  });
+}
@@ -16,9 +16,13 @@ import {
   getStoreIdForNameRecord,
   getStoreIdForRadicalRecord,
   getStoreIdForWordRecord,
+  toKanjiDownloadRecord,
   toKanjiStoreRecord,
+  toNameDownloadRecord,
   toNameStoreRecord,
+  toRadicalDownloadRecord,
   toRadicalStoreRecord,
+  toWordDownloadRecord,
   toWordStoreRecord,
 } from './store-types.js';
 import { stripFields } from './utils.js';
@@ -51,6 +55,9 @@ export interface JpdictSchema extends DBSchema {
       k: Array<string>;
       r: Array<string>;
       h: Array<string>;
+      hr: Array<string>;
+      xr: Array<string>;
+      ls: Array<string>;
       kc: Array<string>;
       gt_en: Array<string>;
       gt_l: Array<string>;
@@ -63,6 +70,15 @@ export interface JpdictSchema extends DBSchema {
       'r.on': Array<string>;
       'r.kun': Array<string>;
       'r.na': Array<string>;
+      cc: Array<string>;
+      mt: Array<string>;
+      var: Array<string>;
+      'misc.gr': number;
+      'misc.jlptn': number;
+      'misc.kk': number;
+      'misc.wk': number;
+      'misc.freq': number;
+      'misc.sc': number;
     };
   };
   radicals: {
@@ -73,16 +89,67 @@ export interface JpdictSchema extends DBSchema {
   names: {
     key: number;
     value: NameStoreRecord;
-    indexes: { k: Array<string>; r: Array<string>; h: Array<string> };
+    indexes: {
+      k: Array<string>;
+      r: Array<string>;
+      h: Array<string>;
+      tt: Array<string>;
+    };
   };
   version: { key: number; value: DataVersionRecord };
 }
 
+// Drops the records and version of `series` as part of upgrading the database
+// so that the next update downloads the series afresh.
+//
+// If either request fails, the upgrade transaction is aborted and opening the
+// database fails so we only need to make sure the rejections are handled.
+function clearSeriesForUpgrade(
+  transaction: IDBPTransaction<
+    JpdictSchema,
+    Array<StoreNames<JpdictSchema>>,
+    'versionchange'
+  >,
+  series: DataSeries
+) {
+  transaction
+    .objectStore(series)
+    .clear()
+    .catch(() => {});
+  transaction
+    .objectStore('version')
+    .delete(getVersionKey(series))
+    .catch(() => {});
+}
+
+// The number of records to read at a time when iterating over a series.
+const READ_BATCH_SIZE = 1000;
+
+const toDownloadRecord: {
+  [series in DataSeries]: (
+    record: JpdictSchema[series]['value']
+  ) => DownloadRecord<series>;
+} = {
+  words: toWordDownloadRecord,
+  names: toNameDownloadRecord,
+  kanji: toKanjiDownloadRecord,
+  radicals: toRadicalDownloadRecord,
+};
+
 export type RecordUpdate<T extends DataSeries> =
   | { mode: 'add'; record: DownloadRecord<T> }
   | { mode: 'change'; record: DownloadRecord<T> }
   | { mode: 'delete'; record: DownloadDeleteRecord<T> };
 
+// An update that restores a record to its state from before a `RecordUpdate`
+// was applied.
+//
+// Records that did not previously exist are identified by their key alone so
+// that we don't need to hold on to the records we added.
+export type RollbackUpdate<T extends DataSeries> =
+  | { mode: 'put'; record: JpdictSchema[T]['value'] }
+  | { mode: 'delete'; key: JpdictSchema[T]['key'] };
+
 export class JpdictStore {
   private state: 'idle' | 'opening' | 'open' | 'error' | 'deleting' = 'idle';
   private db: IDBPDatabase<JpdictSchema> | undefined;
@@ -91,7 +158,8 @@ export class JpdictStore {
 
   protected toStoreRecord: {
     [series in DataSeries]: (
-      record: DownloadRecord<series>
+      record: DownloadRecord<series>,
+      lang: string
     ) => JpdictSchema[series]['value'];
   } = {
     words: toWordStoreRecord,
@@ -100,6 +168,12 @@ export class JpdictStore {
     radicals: toRadicalStoreRecord,
   };
 
+  // Set by stores that fill in the translation tokens (`tt`) of name records.
+  //
+  // Other stores write an empty list of tokens so we don't need to drop their
+  // names when upgrading.
+  protected hasNameTranslationTokens = false;
+
   protected getStoreId: {
     [series in DataSeries]: (
       record: DownloadDeleteRecord<series>
@@ -129,7 +203,7 @@ export class JpdictStore {
     // oxlint-disable-next-line typescript/no-this-alias
     const self = this;
 
-    this.openPromise = openDB<JpdictSchema>('jpdict', 4, {
+    this.openPromise = openDB<JpdictSchema>('jpdict', 5, {
       upgrade(
         db: IDBPDatabase<JpdictSchema>,
         oldVersion: number,
@@ -181,6 +255,43 @@ export class JpdictStore {
           wordsTable.createIndex('gt_en', 'gt_en', { multiEntry: true });
           wordsTable.createIndex('gt_l', 'gt_l', { multiEntry: true });
         }
+        if (oldVersion < 5) {
+          const kanjiTable = transaction.objectStore('kanji');
+          kanjiTable.createIndex('cc', 'cc', { multiEntry: true });
+          kanjiTable.createIndex('mt', 'mt', { multiEntry: true });
+          kanjiTable.createIndex('var', 'var', { multiEntry: true });
+          kanjiTable.createIndex('misc.gr', 'misc.gr');
+          kanjiTable.createIndex('misc.jlptn', 'misc.jlptn');
+          kanjiTable.createIndex('misc.kk', 'misc.kk');
+          kanjiTable.createIndex('misc.wk', 'misc.wk');
+          kanjiTable.createIndex('misc.freq', 'misc.freq');
+          kanjiTable.createIndex('misc.sc', 'misc.sc');
+
+          const namesTable = transaction.objectStore('names');
+          namesTable.createIndex('tt', 'tt', { multiEntry: true });
+
+          const wordsTable = transaction.objectStore('words');
+          wordsTable.createIndex('hr', 'hr', { multiEntry: true });
+          wordsTable.createIndex('xr', 'xr', { multiEntry: true });
+          wordsTable.createIndex('ls', 'ls', { multiEntry: true });
+
+          // Existing records lack the component characters, meaning tokens,
+          // variants, translation tokens, and word search keys used by the
+          // new indexes.
+          //
+          // Rather than rewriting every record here (which would block
+          // opening the database until we finish), we drop the affected series
+          // and let the next update download them again.
+          if (oldVersion >= 1) {
+            clearSeriesForUpgrade(transaction, 'kanji');
+          }
+          if (oldVersion >= 2 && self.hasNameTranslationTokens) {
+            clearSeriesForUpgrade(transaction, 'names');
+          }
+          if (oldVersion >= 4) {
+            clearSeriesForUpgrade(transaction, 'words');
+          }
+        }
       },
       blocked() {
         console.log('Opening blocked');
@@ -326,12 +437,19 @@ export class JpdictStore {
     }
   }
 
+  // If `rollback` is provided, the updates needed to undo this update are
+  // appended to it. The existing records are read in the same transaction as
+  // the update is written.
   async updateSeries<T extends DataSeries>({
     series,
     updates,
+    lang,
+    rollback,
   }: {
     series: T;
     updates: Array<RecordUpdate<T>>;
+    lang: string;
+    rollback?: Array<RollbackUpdate<T>>;
   }) {
     await this.open();
 
@@ -341,6 +459,22 @@ export class JpdictStore {
     const table = tx.store;
 
     try {
+      if (rollback) {
+        const keys = updates.map((update) =>
+          this.getStoreId[series](update.record)
+        );
+        const existingRecords = await Promise.all(
+          keys.map((key) => table.get(key))
+        );
+        for (const [i, existing] of existingRecords.entries()) {
+          rollback.push(
+            existing
+              ? { mode: 'put', record: existing }
+              : { mode: 'delete', key: keys[i]! }
+          );
+        }
+      }
+
       // The important thing here is NOT to wait on the result of each
       // put/delete. This speeds up the operation by an order of magnitude or
       // two and is Dexie's secret sauce.
@@ -350,7 +484,7 @@ export class JpdictStore {
         if (update.mode === 'delete') {
           void table.delete(this.getStoreId[series](update.record));
         } else {
-          void table.put(this.toStoreRecord[series](update.record));
+          void table.put(this.toStoreRecord[series](update.record, lang));
         }
       }
 
@@ -386,6 +520,86 @@ export class JpdictStore {
     }
   }
 
+  // Applies updates produced by `updateSeries` to restore the records it
+  // changed.
+  async rollBackSeries<T extends DataSeries>({
+    series,
+    updates,
+  }: {
+    series: T;
+    updates: Array<RollbackUpdate<T>>;
+  }) {
+    await this.open();
+
+    const tx = this.db!.transaction(series, 'readwrite', {
+      durability: 'relaxed',
+    });
+    const table = tx.store;
+
+    try {
+      for (const update of updates) {
+        if (update.mode === 'delete') {
+          void table.delete(update.key);
+        } else {
+          void table.put(update.record);
+        }
+      }
+
+      await tx.done;
+    } catch (e) {
+      console.error(`Error rolling back series ${series}`, e);
+
+      tx.done.catch(() => {});
+      try {
+        tx.abort();
+      } catch {
+        // Ignore exceptions from aborting the transaction.
+      }
+
+      throw e;
+    }
+  }
+
+  async getRecordCount(series: DataSeries): Promise<number> {
+    await this.open();
+
+    return this.db!.count(series);
+  }
+
+  // Iterates over the records in `series` in the same form as they were
+  // downloaded (i.e. without any of the keys we add for indexing).
+  //
+  // Records are read in batches with a separate transaction for each batch so
+  // that callers can wait on other operations while iterating.
+  async *getRecords<T extends DataSeries>(
+    series: T
+  ): AsyncIterableIterator<DownloadRecord<T>> {
+    await this.open();
+
+    let lastKey: IDBValidKey | undefined;
+    while (true) {
+      const tx = this.db!.transaction(series);
+      const range =
+        typeof lastKey === 'undefined'
+          ? undefined
+          : IDBKeyRange.lowerBound(lastKey, true);
+      const [records, keys] = await Promise.all([
+        tx.store.getAll(range, READ_BATCH_SIZE),
+        tx.store.getAllKeys(range, READ_BATCH_SIZE),
+      ]);
+      await tx.done;
+
+      for (const record of records) {
+        yield toDownloadRecord[series](record);
+      }
+
+      if (records.length < READ_BATCH_SIZE) {
+        return;
+      }
+      lastKey = keys[keys.length - 1];
+    }
+  }
+
   // Test API
   async _getKanji(kanji: Array<number>): Promise<Array<KanjiStoreRecord>> {
     await this.open();
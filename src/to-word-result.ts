@@ -1,5 +1,7 @@
 import { kanaToHiragana } from '@birchill/normal-jp';
 
+import { isKanji } from './japanese.js';
+import { patternToRegExp } from './pattern.js';
 import type {
   ExtendedKanaEntry,
   ExtendedKanjiEntry,
@@ -24,7 +26,15 @@ export type MatchMode =
   | 'kana-equivalent'
   | 'starts-with'
   | 'starts-with-kana-equivalent'
-  | 'kanji';
+  // Headwords containing any of the kanji in the search string
+  | 'kanji'
+  // Headwords containing all of the kanji in the search string
+  | 'all-kanji'
+  // Headwords made up of only kanji from the search string
+  | 'only-kanji'
+  // Glob-style pattern (see pattern.ts) matched against the hiragana-converted
+  // headword
+  | 'pattern';
 
 export function toWordResult(
   record: WordStoreRecord,
@@ -90,6 +100,21 @@ export function toWordResultFromGlossLookup(
   );
 }
 
+// Converts a record looked up directly (e.g. by ID) such that all headwords and
+// senses match but no match ranges are set.
+export function toWordResultFromIdLookup(record: WordStoreRecord): WordResult {
+  const all = () => true;
+  return makeWordResult(
+    record,
+    arrayToBitfield(record.k || [], all),
+    [],
+    arrayToBitfield(record.r, all),
+    [],
+    arrayToBitfield(record.s, all),
+    []
+  );
+}
+
 // ---------------------------------------------------------------------------
 //
 // Helpers
@@ -302,6 +327,25 @@ function getMatchMetadata(
   //
   // Because of (3), we just always search both arrays.
 
+  const regex = matchMode === 'pattern' ? patternToRegExp(search) : undefined;
+  const searchKanji = [...search];
+  const isMatchingKanji = (c: string) =>
+    matchMode === 'only-kanji' ? isKanji(c) : searchKanji.includes(c);
+  const getPatternMatchRange = (
+    str: string
+  ): [start: number, end: number] | undefined => {
+    const hiragana = kanaToHiragana(str);
+    const match = regex!.exec(hiragana);
+    if (!match) {
+      return undefined;
+    }
+
+    // Convert the UTF-16 offsets of the match to code points so that they
+    // agree with the `[...str]` offsets used for the kanji match modes.
+    const start = [...hiragana.slice(0, match.index)].length;
+    return [start, start + [...match[0]].length];
+  };
+
   // First build up a bitfield of all kanji matches.
   const matcher: (str: string) => boolean = (str) => {
     switch (matchMode) {
@@ -314,7 +358,15 @@ function getMatchMetadata(
       case 'starts-with-kana-equivalent':
         return kanaToHiragana(str).startsWith(search);
       case 'kanji':
-        return [...str].includes(search);
+        return [...str].some((c) => searchKanji.includes(c));
+      case 'all-kanji':
+        return searchKanji.every((c) => [...str].includes(c));
+      case 'only-kanji': {
+        const kanji = [...str].filter(isKanji);
+        return !!kanji.length && kanji.every((c) => searchKanji.includes(c));
+      }
+      case 'pattern':
+        return regex!.test(kanaToHiragana(str));
     }
   };
   let kanjiMatches = arrayToBitfield(record.k || [], matcher);
@@ -333,11 +385,26 @@ function getMatchMetadata(
           break;
 
         case 'kanji':
+        case 'all-kanji':
+        case 'only-kanji':
           {
-            const index = [...record.k![i]!].indexOf(search);
-            kanjiMatchRanges.push([i, index, index + 1]);
+            // Cover the first run of matching kanji. We only have one range
+            // per headword so, for a headword like 生き生き, we only report
+            // the first match rather than including the characters between
+            // the matches.
+            const chars = [...record.k![i]!];
+            const start = chars.findIndex(isMatchingKanji);
+            let end = start + 1;
+            while (end < chars.length && isMatchingKanji(chars[end]!)) {
+              end++;
+            }
+            kanjiMatchRanges.push([i, start, end]);
           }
           break;
+
+        case 'pattern':
+          kanjiMatchRanges.push([i, ...getPatternMatchRange(record.k![i]!)!]);
+          break;
       }
       searchOnlyHeadwordMatch ||= !!record.km?.[i]?.i?.includes('sK');
     }
@@ -366,7 +433,8 @@ function getMatchMetadata(
     matchMode === 'lexeme' ||
     matchMode === 'kana-equivalent' ||
     matchMode === 'starts-with' ||
-    matchMode === 'starts-with-kana-equivalent'
+    matchMode === 'starts-with-kana-equivalent' ||
+    matchMode === 'pattern'
   ) {
     // Case (2) from above: Find kana matches and the kanji they apply to.
     kanaMatches = arrayToBitfield(record.r, matcher);
@@ -375,7 +443,11 @@ function getMatchMetadata(
     // Fill out kana match range information
     for (let i = 0; i < record.r.length; i++) {
       if (kanaMatches & (1 << i)) {
-        kanaMatchRanges.push([i, 0, search.length]);
+        kanaMatchRanges.push(
+          matchMode === 'pattern'
+            ? [i, ...getPatternMatchRange(record.r[i]!)!]
+            : [i, 0, search.length]
+        );
         searchOnlyHeadwordMatch ||= !!record.rm?.[i]?.i?.includes('sk');
       }
     }
@@ -7,10 +7,12 @@ import {
   beforeEach,
   describe,
   it,
+  vi,
 } from 'vitest';
 
 import type { DataVersion } from './data-version.js';
 import type { CurrentVersion } from './download.js';
+import { DownloadError } from './download-error.js';
 import { clearCachedVersionInfo } from './download-version-info.js';
 import { JpdictStore } from './store.js';
 import type { ProgressEvent, UpdateEvent } from './update-events.js';
@@ -223,6 +225,8 @@ describe('update', function () {
       rad: { x: 1 },
       refs: { nelson_c: 265, halpern_njecd: 2028 },
       misc: { sc: 6 },
+      cc: [],
+      mt: [],
     });
     assert.deepEqual(chars[1], {
       c: 13318,
@@ -238,6 +242,8 @@ describe('update', function () {
       rad: { x: 4 },
       refs: {},
       misc: { sc: 6 },
+      cc: [],
+      mt: [],
     });
   });
 
@@ -483,7 +489,250 @@ describe('update', function () {
         rad: { x: 4 },
         refs: {},
         misc: { sc: 6 },
+        cc: [],
+        mt: [],
       },
     ]);
   });
+
+  it(
+    'should roll back a patch that fails verification',
+    { timeout: 30_000 },
+    async () => {
+      // Initial update
+      fetchMock.once('end:version-en.json', KANJI_VERSION_1_0_0);
+      fetchMock.route(
+        'end:kanji/en/1.0.0.jsonl',
+        `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":2,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+{"c":"㐆","r":{},"m":["to follow"],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+`
+      );
+      await updateKanji({ majorVersion: 1 });
+      const originalRecords = await store._getKanji([13314, 13318]);
+
+      // Subsequent patch that deletes the first record, changes the second, and
+      // adds enough records that some are written before the end of the file.
+      const addedChars = Array.from({ length: 4001 }, (_, i) => 0x4e00 + i);
+      const patch = `{"type":"header","version":{"major":1,"minor":0,"patch":1,"databaseVersion":"176","dateOfCreation":"2019-07-10"},"records":${
+        addedChars.length + 2
+      },"format":"patch"}
+{"_":"-","c":"㐂"}
+{"_":"~","c":"㐆","r":{},"m":["to trust to"],"rad":{"x":4},"refs":{},"misc":{"sc":6}}
+${addedChars
+  .map(
+    (c) =>
+      `{"_":"+","c":"${String.fromCodePoint(c)}","r":{},"m":[],"rad":{"x":1},"refs":{},"misc":{"sc":1}}`
+  )
+  .join('\n')}
+`;
+
+      clearCachedVersionInfo();
+      fetchMock.route('end:version-en.json', {
+        kanji: {
+          '1': {
+            ...KANJI_VERSION_1_0_1.kanji['1'],
+            sha256: { '1.0.1-patch.jsonl': '0'.repeat(64) },
+          },
+        },
+      });
+      fetchMock.route('end:kanji/en/1.0.1-patch.jsonl', patch);
+
+      try {
+        await updateKanji({
+          currentVersion: { major: 1, minor: 0, patch: 0 },
+          majorVersion: 1,
+        });
+        assert.fail('Should have thrown an exception');
+      } catch (e) {
+        assert.instanceOf(e, DownloadError);
+        assert.equal((e as DownloadError).code, 'DatabaseFileChecksumMismatch');
+      }
+
+      assert.deepEqual(
+        await store._getKanji([13314, 13318, ...addedChars]),
+        originalRecords
+      );
+      assert.deepEqual(
+        await store.getDataVersion('kanji'),
+        DATA_VERSION_1_0_0_EN
+      );
+    }
+  );
+
+  it(
+    'should clear the series if rolling back a patch fails',
+    { timeout: 30_000 },
+    async () => {
+      // Initial update
+      fetchMock.once('end:version-en.json', KANJI_VERSION_1_0_0);
+      fetchMock.route(
+        'end:kanji/en/1.0.0.jsonl',
+        `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+      );
+      await updateKanji({ majorVersion: 1 });
+
+      // Patch that adds enough records that some are written before the end
+      // of the file.
+      const addedChars = Array.from({ length: 4001 }, (_, i) => 0x4e00 + i);
+      const patch = `{"type":"header","version":{"major":1,"minor":0,"patch":1,"databaseVersion":"176","dateOfCreation":"2019-07-10"},"records":${
+        addedChars.length
+      },"format":"patch"}
+${addedChars
+  .map(
+    (c) =>
+      `{"_":"+","c":"${String.fromCodePoint(c)}","r":{},"m":[],"rad":{"x":1},"refs":{},"misc":{"sc":1}}`
+  )
+  .join('\n')}
+`;
+
+      clearCachedVersionInfo();
+      fetchMock.route('end:version-en.json', {
+        kanji: {
+          '1': {
+            ...KANJI_VERSION_1_0_1.kanji['1'],
+            sha256: { '1.0.1-patch.jsonl': '0'.repeat(64) },
+          },
+        },
+      });
+      fetchMock.route('end:kanji/en/1.0.1-patch.jsonl', patch);
+
+      const rollBackSpy = vi
+        .spyOn(store, 'rollBackSeries')
+        .mockRejectedValue(new Error('Rollback failed'));
+      const consoleSpy = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+
+      try {
+        await updateKanji({
+          currentVersion: { major: 1, minor: 0, patch: 0 },
+          majorVersion: 1,
+        });
+        assert.fail('Should have thrown an exception');
+      } catch (e) {
+        assert.instanceOf(e, DownloadError);
+        assert.equal((e as DownloadError).code, 'DatabaseFileChecksumMismatch');
+      } finally {
+        rollBackSpy.mockRestore();
+        consoleSpy.mockRestore();
+      }
+
+      assert.equal(await store.getRecordCount('kanji'), 0);
+      assert.isNull(await store.getDataVersion('kanji'));
+    }
+  );
+
+  it(
+    'should clear a full file that fails verification',
+    { timeout: 30_000 },
+    async () => {
+      const chars = Array.from({ length: 4001 }, (_, i) => 0x4e00 + i);
+      fetchMock.route('end:version-en.json', {
+        kanji: {
+          '1': {
+            ...KANJI_VERSION_1_0_0.kanji['1'],
+            sha256: { '1.0.0.jsonl': '0'.repeat(64) },
+          },
+        },
+      });
+      fetchMock.route(
+        'end:kanji/en/1.0.0.jsonl',
+        `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":${
+          chars.length
+        },"format":"full"}
+${chars
+  .map(
+    (c) =>
+      `{"c":"${String.fromCodePoint(c)}","r":{},"m":[],"rad":{"x":1},"refs":{},"misc":{"sc":1}}`
+  )
+  .join('\n')}
+`
+      );
+
+      try {
+        await updateKanji({ majorVersion: 1 });
+        assert.fail('Should have thrown an exception');
+      } catch (e) {
+        assert.instanceOf(e, DownloadError);
+        assert.equal((e as DownloadError).code, 'DatabaseFileChecksumMismatch');
+      }
+
+      assert.equal(await store.getRecordCount('kanji'), 0);
+      assert.isNull(await store.getDataVersion('kanji'));
+    }
+  );
+
+  it(
+    'should not roll back a file with a checksum when the update is aborted',
+    { timeout: 30_000 },
+    async () => {
+      // Initial update
+      fetchMock.once('end:version-en.json', KANJI_VERSION_1_0_0);
+      fetchMock.route(
+        'end:kanji/en/1.0.0.jsonl',
+        `{"type":"header","version":{"major":1,"minor":0,"patch":0,"databaseVersion":"175","dateOfCreation":"2019-07-09"},"records":1,"format":"full"}
+{"c":"㐂","r":{},"m":[],"rad":{"x":1},"refs":{"nelson_c":265,"halpern_njecd":2028},"misc":{"sc":6}}
+`
+      );
+      await updateKanji({ majorVersion: 1 });
+
+      // Patch that deletes the existing record and adds enough records that
+      // some are written before the end of the file.
+      const addedChars = Array.from({ length: 6000 }, (_, i) => 0x4e00 + i);
+      const patch = `{"type":"header","version":{"major":1,"minor":0,"patch":1,"databaseVersion":"176","dateOfCreation":"2019-07-10"},"records":${
+        addedChars.length + 1
+      },"format":"patch"}
+{"_":"-","c":"㐂"}
+${addedChars
+  .map(
+    (c) =>
+      `{"_":"+","c":"${String.fromCodePoint(c)}","r":{},"m":[],"rad":{"x":1},"refs":{},"misc":{"sc":1}}`
+  )
+  .join('\n')}
+`;
+
+      clearCachedVersionInfo();
+      fetchMock.route('end:version-en.json', {
+        kanji: {
+          '1': {
+            ...KANJI_VERSION_1_0_1.kanji['1'],
+            sha256: { '1.0.1-patch.jsonl': '0'.repeat(64) },
+          },
+        },
+      });
+      fetchMock.route('end:kanji/en/1.0.1-patch.jsonl', patch);
+
+      // Abort once the first batch has been written
+      try {
+        await update({
+          callback: (event: UpdateEvent) => {
+            if (event.type === 'progress' && event.fileProgress > 0.7) {
+              controller.abort();
+            }
+          },
+          currentVersion: { major: 1, minor: 0, patch: 0 },
+          lang: 'en',
+          majorVersion: 1,
+          series: 'kanji',
+          signal,
+          store,
+        });
+        assert.fail('Should have thrown an exception');
+      } catch (e) {
+        assert.equal((e as Error).name, 'AbortError');
+      }
+
+      // The records written so far should remain but the version should not
+      // be updated so that they are overwritten by the next update.
+      assert.deepEqual(await store._getKanji([13314]), []);
+      assert.equal((await store._getKanji([0x4e00])).length, 1);
+      assert.deepEqual(
+        await store.getDataVersion('kanji'),
+        DATA_VERSION_1_0_0_EN
+      );
+    }
+  );
 });
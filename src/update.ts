@@ -1,13 +1,19 @@
 import { AbortError } from './abort-error.js';
 import type { DataSeries } from './data-series.js';
 import type { DataVersion } from './data-version.js';
+import { DownloadError } from './download-error.js';
 import {
   validateDownloadDeleteRecord,
   validateDownloadRecord,
 } from './download-types.js';
-import type { CurrentVersion, RecordEvent } from './download.js';
-import { download } from './download.js';
-import type { JpdictStore, RecordUpdate } from './store.js';
+import type {
+  CurrentVersion,
+  DownloadEvent,
+  ImportOptions,
+  RecordEvent,
+} from './download.js';
+import { download, importFiles } from './download.js';
+import type { JpdictStore, RecordUpdate, RollbackUpdate } from './store.js';
 import type { UpdateEvent } from './update-events.js';
 
 export type UpdateCallback = (action: UpdateEvent) => void;
@@ -38,6 +44,7 @@ const BATCH_SIZE = 4000;
 const MAX_PROGRESS_RESOLUTION = 0.01;
 
 export async function update({
+  baseUrls,
   callback,
   currentVersion,
   lang,
@@ -46,6 +53,7 @@ export async function update({
   signal,
   store,
 }: {
+  baseUrls?: ReadonlyArray<string>;
   callback: UpdateCallback;
   currentVersion?: CurrentVersion;
   lang: string;
@@ -57,27 +65,69 @@ export async function update({
   return doUpdate({
     callback,
     currentVersion,
+    events: download({
+      baseUrls,
+      series,
+      majorVersion,
+      currentVersion,
+      lang,
+      signal,
+    }),
     lang,
-    majorVersion,
     series,
     signal,
     store,
   });
 }
 
-async function doUpdate<Series extends DataSeries>({
+// As with `update` but using local copies of the data files instead of
+// downloading them.
+export async function updateFromFiles({
   callback,
   currentVersion,
+  files,
   lang,
   majorVersion,
   series,
   signal,
   store,
+  version,
+}: ImportOptions & {
+  callback: UpdateCallback;
+  store: JpdictStore;
+}): Promise<void> {
+  return doUpdate({
+    callback,
+    currentVersion,
+    events: importFiles({
+      series,
+      majorVersion,
+      currentVersion,
+      lang,
+      version,
+      files,
+      signal,
+    }),
+    lang,
+    series,
+    signal,
+    store,
+  });
+}
+
+async function doUpdate<Series extends DataSeries>({
+  callback,
+  currentVersion,
+  events,
+  lang,
+  series,
+  signal,
+  store,
 }: {
   callback: UpdateCallback;
   currentVersion?: CurrentVersion;
+  events: AsyncIterableIterator<DownloadEvent>;
   lang: string;
-  majorVersion: number;
   signal: AbortSignal;
   series: Series;
   store: JpdictStore;
@@ -88,6 +138,10 @@ async function doUpdate<Series extends DataSeries>({
     await store.clearSeries(series);
   }
 
+  // Set when the series has been cleared and no file has been written to it
+  // since.
+  let isSeriesEmpty = !currentVersion;
+
   let currentFile = 0;
   let currentFileVersion: DataVersion | undefined;
   let totalFiles = 0;
@@ -98,118 +152,176 @@ async function doUpdate<Series extends DataSeries>({
 
   let lastReportedTotalProgress: number | undefined;
 
-  for await (const event of download({
-    series,
-    majorVersion,
-    currentVersion,
-    lang,
-    signal,
-  })) {
-    if (signal.aborted) {
-      throw new AbortError();
+  // When the current file has a checksum, how to undo the changes we have
+  // written from it so far should it turn out to be corrupt.
+  //
+  // If the series was empty when the file started we can simply clear it.
+  // Otherwise we record the updates needed to restore each batch.
+  let rollback: 'clear' | Array<Array<RollbackUpdate<Series>>> | undefined;
+
+  const writeUpdates = async () => {
+    if (Array.isArray(rollback)) {
+      const batch: Array<RollbackUpdate<Series>> = [];
+      await store.updateSeries({ series, updates, lang, rollback: batch });
+      rollback.push(batch);
+    } else {
+      await store.updateSeries({ series, updates, lang });
     }
+    updates = [];
+  };
 
-    switch (event.type) {
-      case 'reset':
-        await store.clearSeries(series);
-        break;
-
-      case 'downloadstart':
-        totalFiles = event.files;
-        callback({ type: 'updatestart' });
-        break;
-
-      case 'downloadend':
-        callback({ type: 'updateend' });
-        break;
-
-      case 'filestart':
-        currentFile++;
-        currentRecord = 0;
-        totalRecords = event.totalRecords;
-        currentFileVersion = event.version;
-        callback({ type: 'filestart', version: event.version });
-        if (currentFile === 1) {
-          callback({ type: 'progress', fileProgress: 0, totalProgress: 0 });
-          lastReportedTotalProgress = 0;
-        }
-        break;
+  try {
+    for await (const event of events) {
+      if (signal.aborted) {
+        throw new AbortError();
+      }
 
-      case 'fileend':
-        {
-          if (!currentFileVersion) {
-            throw new Error('Received fileend event before filestart');
-          }
+      switch (event.type) {
+        case 'reset':
+          await store.clearSeries(series);
+          isSeriesEmpty = true;
+          break;
 
-          // Save remaining batched items
-          if (updates.length) {
-            await store.updateSeries({ series, updates });
-            updates = [];
-          }
+        case 'downloadstart':
+          totalFiles = event.files;
+          callback({ type: 'updatestart' });
+          break;
+
+        case 'downloadend':
+          callback({ type: 'updateend' });
+          break;
 
-          // Commit version info
-          //
-          // If this is the last part in a multi-part series, however, don't
-          // write the part info.
-          const versionToWrite = currentFileVersion;
-          if (
-            versionToWrite.partInfo &&
-            versionToWrite.partInfo.part === versionToWrite.partInfo.parts
-          ) {
-            delete versionToWrite.partInfo;
+        case 'filestart':
+          currentFile++;
+          currentRecord = 0;
+          totalRecords = event.totalRecords;
+          currentFileVersion = event.version;
+          rollback = event.checksum
+            ? isSeriesEmpty
+              ? 'clear'
+              : []
+            : undefined;
+          callback({ type: 'filestart', version: event.version });
+          if (currentFile === 1) {
+            callback({ type: 'progress', fileProgress: 0, totalProgress: 0 });
+            lastReportedTotalProgress = 0;
           }
-          await store.updateDataVersion({ series, version: versionToWrite });
+          break;
 
-          // Final progress event
-          const totalProgress = currentFile / totalFiles;
-          callback({ type: 'progress', fileProgress: 1, totalProgress });
-          lastReportedTotalProgress = totalProgress;
+        case 'fileend':
+          {
+            if (!currentFileVersion) {
+              throw new Error('Received fileend event before filestart');
+            }
 
-          callback({ type: 'fileend', version: versionToWrite });
-        }
-        break;
-
-      case 'record':
-        {
-          const [error, update] = parseRecordEvent({ series, event });
-          if (error) {
-            callback({
-              type: 'parseerror',
-              message: error.message,
-              record: event.record,
-            });
-          } else {
-            updates.push(update);
-            if (updates.length >= BATCH_SIZE) {
-              await store.updateSeries({ series, updates });
-              updates = [];
+            // Save remaining batched items
+            if (updates.length) {
+              await writeUpdates();
             }
-          }
 
-          // We update the total number of records even if we failed to validate
-          // the incoming record because the progress should continue even if
-          // all the records are bad.
-          currentRecord++;
-
-          // If we have processed enough records to pass the progress event
-          // threshold, dispatch a progress event.
-          const fileProgress = currentRecord / totalRecords;
-          const totalProgress = (currentFile - 1 + fileProgress) / totalFiles;
-          if (
-            // Don't dispatch a 100% file progress event until after we've
-            // updated the version database (as part of processing the 'fileend'
-            // event.)
-            fileProgress < 1 &&
-            (lastReportedTotalProgress === undefined ||
-              totalProgress - lastReportedTotalProgress >
-                MAX_PROGRESS_RESOLUTION)
-          ) {
-            callback({ type: 'progress', fileProgress, totalProgress });
+            // Commit version info
+            //
+            // If this is the last part in a multi-part series, however, don't
+            // write the part info.
+            const versionToWrite = currentFileVersion;
+            if (
+              versionToWrite.partInfo &&
+              versionToWrite.partInfo.part === versionToWrite.partInfo.parts
+            ) {
+              delete versionToWrite.partInfo;
+            }
+            await store.updateDataVersion({ series, version: versionToWrite });
+            isSeriesEmpty = false;
+            rollback = undefined;
+
+            // Final progress event
+            const totalProgress = currentFile / totalFiles;
+            callback({ type: 'progress', fileProgress: 1, totalProgress });
             lastReportedTotalProgress = totalProgress;
+
+            callback({ type: 'fileend', version: versionToWrite });
+          }
+          break;
+
+        case 'record':
+          {
+            const [error, update] = parseRecordEvent({ series, event });
+            if (error) {
+              callback({
+                type: 'parseerror',
+                message: error.message,
+                record: event.record,
+              });
+            } else {
+              updates.push(update);
+              if (updates.length >= BATCH_SIZE) {
+                await writeUpdates();
+              }
+            }
+
+            // We update the total number of records even if we failed to validate
+            // the incoming record because the progress should continue even if
+            // all the records are bad.
+            currentRecord++;
+
+            // If we have processed enough records to pass the progress event
+            // threshold, dispatch a progress event.
+            const fileProgress = currentRecord / totalRecords;
+            const totalProgress = (currentFile - 1 + fileProgress) / totalFiles;
+            if (
+              // Don't dispatch a 100% file progress event until after we've
+              // updated the version database (as part of processing the 'fileend'
+              // event.)
+              fileProgress < 1 &&
+              (lastReportedTotalProgress === undefined ||
+                totalProgress - lastReportedTotalProgress >
+                  MAX_PROGRESS_RESOLUTION)
+            ) {
+              callback({ type: 'progress', fileProgress, totalProgress });
+              lastReportedTotalProgress = totalProgress;
+            }
+          }
+          break;
+      }
+    }
+  } catch (e) {
+    // If the file has a checksum, we won't know if it was corrupt until we
+    // have read the whole file so we need to undo any changes we have written
+    // from it.
+    //
+    // We only do this when the checksum doesn't match. If the update fails for
+    // any other reason (e.g. it is aborted) the records we have written so far
+    // are as good as those from a file without a checksum and since we don't
+    // update the version until the end of the file, they will be overwritten
+    // when we next update.
+    if (
+      rollback &&
+      e instanceof DownloadError &&
+      e.code === 'DatabaseFileChecksumMismatch'
+    ) {
+      try {
+        if (rollback === 'clear') {
+          await store.clearSeries(series);
+        } else {
+          for (const batch of rollback.reverse()) {
+            await store.rollBackSeries({ series, updates: batch });
           }
         }
-        break;
+      } catch (rollbackError) {
+        // If we can't undo the changes, clear the series (including its
+        // version) so that the next update starts from scratch rather than
+        // trusting whatever corrupt records remain.
+        console.error(
+          `Failed to roll back changes to ${series}. Clearing series.`,
+          rollbackError
+        );
+        await store.clearSeries(series).catch((clearError) => {
+          console.error(`Failed to clear ${series}`, clearError);
+        });
+      }
     }
+
+    throw e;
   }
 }
 
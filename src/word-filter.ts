@@ -0,0 +1,75 @@
+import type { ExtendedSense, WordResult } from './result-types.js';
+
+export type WordFilter = {
+  // Only include senses with one of the given parts of speech.
+  //
+  // A trailing `*` matches any part of speech with the given prefix, e.g.
+  // `v5*` matches `v5r`, `v5k-s` etc.
+  pos?: Array<string>;
+  // Only include senses with one of the given field types (e.g. `med`)
+  field?: Array<string>;
+  // Only include senses with one of the given misc types (e.g. `uk`)
+  misc?: Array<string>;
+  // Exclude senses with any of the given misc types (e.g. `arch`, `obs`)
+  excludeMisc?: Array<string>;
+  // Only include senses with one of the given dialects (e.g. `ksb`)
+  dialect?: Array<string>;
+  // Only include entries where one of the matched headwords is common (i.e.
+  // has one of the priority tags marked with (P) in Edict)
+  commonOnly?: boolean;
+};
+
+// Unmarks any senses of `result` that don't match `filter`.
+//
+// Returns false if the result should be dropped altogether (i.e. no senses
+// match or the entry is not common when `commonOnly` is set).
+export function applyWordFilter(
+  result: WordResult,
+  filter: WordFilter
+): boolean {
+  if (filter.commonOnly && !isCommon(result)) {
+    return false;
+  }
+
+  let hasMatchingSense = false;
+  for (const sense of result.s) {
+    sense.match = sense.match && senseMatchesFilter(sense, filter);
+    hasMatchingSense ||= sense.match;
+  }
+
+  return hasMatchingSense;
+}
+
+function senseMatchesFilter(sense: ExtendedSense, filter: WordFilter): boolean {
+  return (
+    includesAny(sense.pos, filter.pos) &&
+    includesAny(sense.field, filter.field) &&
+    includesAny(sense.misc, filter.misc) &&
+    includesAny(sense.dial, filter.dialect) &&
+    !filter.excludeMisc?.some((misc) => sense.misc?.includes(misc))
+  );
+}
+
+function includesAny(
+  values: Array<string> | undefined,
+  patterns: Array<string> | undefined
+): boolean {
+  if (!patterns) {
+    return true;
+  }
+
+  return patterns.some((pattern) =>
+    pattern.endsWith('*')
+      ? !!values?.some((value) => value.startsWith(pattern.slice(0, -1)))
+      : !!values?.includes(pattern)
+  );
+}
+
+const COMMON_PRIORITIES = ['i1', 'n1', 's1', 's2', 'g1'];
+
+function isCommon(result: WordResult): boolean {
+  return [...result.k, ...result.r].some(
+    (headword) =>
+      headword.match && headword.p?.some((p) => COMMON_PRIORITIES.includes(p))
+  );
+}